@@ -8,9 +8,11 @@ const entryPoints = {
   "cli/init": "src/cli/init.ts",
   "cli/run-command": "src/cli/run-command.ts",
   "runtime/index": "src/runtime/index.ts",
+  "runtime/worker": "src/runtime/worker.ts",
   "testing/index": "src/testing/index.ts",
   "core/env": "src/core/env.ts",
   "core/discovery": "src/core/discovery.ts",
+  "core/static-worker": "src/core/static-worker.ts",
   "schema/index": "src/schema/index.ts",
 };
 
@@ -24,7 +26,7 @@ const buildOptions = {
   splitting: false,
   sourcemap: false,
   packages: "external",
-  external: ["esbuild", "json5", "@clack/prompts", "ajv", "chokidar"],
+  external: ["esbuild", "json5", "@clack/prompts", "ajv", "ajv-formats", "chokidar"],
 };
 
 if (watch) {
@@ -3,7 +3,13 @@ import fs from "node:fs";
 import { createRequire } from "node:module";
 import path from "node:path";
 import { build as esbuild } from "esbuild";
-import { discoverPrompts, discoverResources, discoverTools } from "../core/discovery.js";
+import {
+  type DiscoveredTool,
+  discoverPrompts,
+  discoverResources,
+  discoverResourceTemplates,
+  discoverTools,
+} from "../core/discovery.js";
 import { loadEnvFiles } from "../core/env.js";
 import { copyDir, ensureDir } from "../core/fs.js";
 import {
@@ -12,6 +18,8 @@ import {
   normalizeManifest,
   validateManifest,
 } from "../core/manifest.js";
+import { detectMimeType } from "../core/mime.js";
+import { createWatcher } from "../core/watch.js";
 import { getDzxVersion } from "../shared/version.js";
 import { parseArgs } from "./args.js";
 import {
@@ -50,13 +58,6 @@ function normalizeSchema(schema: unknown): unknown {
   return schema;
 }
 
-/**
- * Check if a value looks like a NodeJS error object.
- */
-function isErrnoException(value: unknown): value is NodeJS.ErrnoException {
-  return typeof value === "object" && value !== null && "code" in value;
-}
-
 /**
  * Normalize env overrides to string values.
  */
@@ -123,63 +124,6 @@ function relativeToDir(dirAbs: string, fileAbs: string): string {
   return toPosix(path.relative(dirAbs, fileAbs));
 }
 
-/**
- * Create a file watcher with polling fallback.
- */
-async function createWatcher(
-  paths: string[],
-  onChange: (filename?: string) => void,
-): Promise<() => void> {
-  const watchTargets = paths.filter((candidate) => fs.existsSync(candidate));
-  if (watchTargets.length === 0) return () => {};
-
-  const { watch } = await import("chokidar");
-  let timeout: NodeJS.Timeout | null = null;
-  let watcher = watch(watchTargets, {
-    ignoreInitial: true,
-    persistent: true,
-    awaitWriteFinish: { stabilityThreshold: 150, pollInterval: 50 },
-    usePolling: process.env.DZX_POLLING === "1",
-    ignored: ["**/node_modules/**", "**/.git/**"],
-  });
-
-  /**
-   * Debounce file change events before restarting.
-   */
-  const handleChange = (filePath?: string) => {
-    if (timeout) clearTimeout(timeout);
-    timeout = setTimeout(() => onChange(filePath), 150);
-  };
-
-  watcher.on("add", handleChange);
-  watcher.on("change", handleChange);
-  watcher.on("unlink", handleChange);
-  watcher.on("error", (err: unknown) => {
-    if (isErrnoException(err) && (err.code === "EMFILE" || err.code === "ENOSPC")) {
-      // fallback to polling when file descriptors are exhausted
-      watcher.close().catch(() => {});
-      watcher = watch(watchTargets, {
-        ignoreInitial: true,
-        persistent: true,
-        awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 100 },
-        usePolling: true,
-        ignored: ["**/node_modules/**", "**/.git/**"],
-      });
-      // eslint-disable-next-line no-console
-      console.error(
-        `${colorize.yellow("warn")} ${colorize.gray("file watching degraded to polling")}`,
-      );
-      watcher.on("add", handleChange);
-      watcher.on("change", handleChange);
-      watcher.on("unlink", handleChange);
-    }
-  });
-
-  return () => {
-    watcher.close().catch(() => {});
-  };
-}
-
 /**
  * Run a shell command with explicit env in a working directory.
  */
@@ -212,6 +156,7 @@ export async function runInspect(argv: string[]): Promise<void> {
       { flag: "--cwd <path>", description: "working directory (default: .)" },
       { flag: "--format <table|json>", description: "output format (default: table)" },
       { flag: "--json", description: "shorthand for --format json" },
+      { flag: "--static", description: "read metadata without running modules" },
     ]);
     return;
   }
@@ -220,11 +165,22 @@ export async function runInspect(argv: string[]): Promise<void> {
   const normalized = normalizeManifest(manifest);
 
   const warnings: string[] = [];
-  const tools = await discoverTools(cwd, normalized.toolsDir ?? "tools", {
-    onWarn: (message) => warnings.push(message),
-  });
-  const resources = discoverResources(cwd, normalized.resourcesDir ?? "resources");
-  const prompts = discoverPrompts(cwd, normalized.promptsDir ?? "prompts");
+  const discoverOptions = {
+    onWarn: (message: string) => warnings.push(message),
+    static: Boolean(args.static) || normalized.discovery?.mode === "static",
+  };
+  const tools = await discoverTools(cwd, normalized.toolsDir ?? "tools", discoverOptions);
+  const resources = await discoverResources(
+    cwd,
+    normalized.resourcesDir ?? "resources",
+    discoverOptions,
+  );
+  const resourceTemplates = await discoverResourceTemplates(
+    cwd,
+    normalized.resourcesDir ?? "resources",
+    discoverOptions,
+  );
+  const prompts = await discoverPrompts(cwd, normalized.promptsDir ?? "prompts", discoverOptions);
 
   if (format === "json") {
     if (warnings.length > 0) {
@@ -238,7 +194,7 @@ export async function runInspect(argv: string[]): Promise<void> {
       inputSchema: normalizeSchema(t.inputSchema),
       outputSchema: normalizeSchema(t.outputSchema),
     }));
-    const payload = { tools: normalizedTools, resources, prompts };
+    const payload = { tools: normalizedTools, resources, resourceTemplates, prompts };
     // eslint-disable-next-line no-console
     console.log(JSON.stringify(payload, null, 2));
     return;
@@ -261,7 +217,12 @@ export async function runInspect(argv: string[]): Promise<void> {
     for (const tool of tools) {
       const inputSource = tool.inputSchemaSource ?? "unknown";
       const outputSource = tool.outputSchemaSource ?? "unknown";
-      const schemaInfo = `schema in:${inputSource} out:${outputSource}`;
+      const hints = Object.entries(tool.annotations ?? {})
+        .filter(([key, value]) => key.endsWith("Hint") && value === true)
+        .map(([key]) => key.replace(/Hint$/, ""));
+      const hintInfo = hints.length > 0 ? ` ${hints.join(", ")}` : "";
+      const evaluationInfo = tool.needsEvaluation ? " needs runtime evaluation" : "";
+      const schemaInfo = `schema in:${inputSource} out:${outputSource}${hintInfo}${evaluationInfo}`;
       const description = tool.description
         ? `${tool.description} (${schemaInfo})`
         : `(${schemaInfo})`;
@@ -273,7 +234,7 @@ export async function runInspect(argv: string[]): Promise<void> {
   // eslint-disable-next-line no-console
   console.log("");
   printSection("Resources");
-  if (resources.length === 0) {
+  if (resources.length === 0 && resourceTemplates.length === 0) {
     // eslint-disable-next-line no-console
     console.log("  (none)");
   } else {
@@ -281,6 +242,13 @@ export async function runInspect(argv: string[]): Promise<void> {
       // eslint-disable-next-line no-console
       console.log(`  ${formatListItem(resource.name, resource.description)}`);
     }
+    for (const template of resourceTemplates) {
+      const description = template.description
+        ? `${template.description} (${template.uriTemplate})`
+        : `(${template.uriTemplate})`;
+      // eslint-disable-next-line no-console
+      console.log(`  ${formatListItem(template.name, description)}`);
+    }
   }
 
   // eslint-disable-next-line no-console
@@ -301,6 +269,7 @@ export async function runInspect(argv: string[]): Promise<void> {
   printKeyValueList([
     { label: "tools", value: String(tools.length) },
     { label: "resources", value: String(resources.length) },
+    { label: "resource templates", value: String(resourceTemplates.length) },
     { label: "prompts", value: String(prompts.length) },
   ]);
 }
@@ -397,6 +366,7 @@ export async function runBuild(argv: string[]): Promise<void> {
       { flag: "--format <esm|cjs>", description: "output module format (default: esm)" },
       { flag: "--sourcemap", description: "emit sourcemaps" },
       { flag: "--minify", description: "minify output" },
+      { flag: "--static", description: "read metadata without running modules" },
     ]);
     return;
   }
@@ -512,13 +482,18 @@ export async function runBuild(argv: string[]): Promise<void> {
       });
     }
 
+    const discoverOptions = {
+      onWarn: logWarning,
+      failOnInvalid: true,
+      static: Boolean(args.static) || normalized.discovery?.mode === "static",
+    };
+    // Discovered once and reused for the manifest, so tool modules load a single time.
+    let discovered: DiscoveredTool[] | undefined;
+
     step("Building tools");
     if (existsWithinRepo(cwd, toolsDir)) {
       if (splitTools || bundleTools) {
-        const discovered = await discoverTools(cwd, toolsDir, {
-          onWarn: logWarning,
-          failOnInvalid: true,
-        });
+        discovered = await discoverTools(cwd, toolsDir, discoverOptions);
         const toolFiles = Array.from(
           new Set(discovered.map((tool) => path.resolve(cwd, tool.file))),
         ).sort((a, b) => a.localeCompare(b));
@@ -550,10 +525,7 @@ export async function runBuild(argv: string[]): Promise<void> {
     }
 
     step("Generating manifest");
-    const discoveredTools = await discoverTools(cwd, toolsDir, {
-      onWarn: logWarning,
-      failOnInvalid: true,
-    });
+    const discoveredTools = discovered ?? (await discoverTools(cwd, toolsDir, discoverOptions));
     const tools = discoveredTools.map((tool) => {
       const toolFileAbs = path.resolve(cwd, tool.file);
       const relativePath = relativeToDir(toolsDirAbs, toolFileAbs);
@@ -562,26 +534,32 @@ export async function runBuild(argv: string[]): Promise<void> {
         : relativePath;
       return {
         name: tool.name,
+        ...(tool.title ? { title: tool.title } : {}),
         description: tool.description ?? "",
         file: joinManifestPath(outDirRel, path.posix.join("tools", outputFile)),
+        ...(tool.export ? { export: tool.export } : {}),
         inputSchema: normalizeSchema(tool.inputSchema),
         outputSchema: normalizeSchema(tool.outputSchema),
+        ...(tool.annotations ? { annotations: tool.annotations } : {}),
         format: splitTools || bundleTools ? format : "source",
       };
     });
 
-    const resources = discoverResources(cwd, resourcesDir).map((resource) => {
-      const resourceFileAbs = path.resolve(cwd, resource.file);
-      const relativePath = relativeToDir(resourcesDirAbs, resourceFileAbs);
-      return {
-        name: resource.name,
-        description: resource.description,
-        file: joinManifestPath(outDirRel, path.posix.join("resources", relativePath)),
-        mediaType: resource.mediaType ?? "text/markdown",
-      };
-    });
+    const resources = (await discoverResources(cwd, resourcesDir, discoverOptions)).map(
+      (resource) => {
+        const resourceFileAbs = path.resolve(cwd, resource.file);
+        const relativePath = relativeToDir(resourcesDirAbs, resourceFileAbs);
+        return {
+          name: resource.name,
+          description: resource.description,
+          file: joinManifestPath(outDirRel, path.posix.join("resources", relativePath)),
+          mediaType:
+            resource.mediaType ?? (resource.dynamic ? "text/plain" : detectMimeType(resource.file)),
+        };
+      },
+    );
 
-    const prompts = discoverPrompts(cwd, promptsDir).map((prompt) => {
+    const prompts = (await discoverPrompts(cwd, promptsDir, discoverOptions)).map((prompt) => {
       const promptFileAbs = path.resolve(cwd, prompt.file);
       const relativePath = relativeToDir(promptsDirAbs, promptFileAbs);
       return {
@@ -678,6 +656,19 @@ export async function runBuild(argv: string[]): Promise<void> {
   }
 }
 
+/** Source files whose changes restart `dzx dev` when they live outside the registry dirs. */
+const DEV_SOURCE_EXTENSIONS = new Set([
+  ".js",
+  ".mjs",
+  ".cjs",
+  ".jsx",
+  ".ts",
+  ".mts",
+  ".cts",
+  ".tsx",
+  ".json",
+]);
+
 /**
  * Run the dev server with hot reload.
  */
@@ -686,6 +677,7 @@ export async function runDev(argv: string[]): Promise<void> {
   const cwd = resolveCwd(args.cwd as string | undefined);
   const config = (args.config as string | undefined) ?? "mcp.json";
   const watchEnabled = !args["no-watch"];
+  const stdio = Boolean(args.stdio);
   if (args.poll) {
     process.env.DZX_POLLING = "1";
   }
@@ -696,6 +688,7 @@ export async function runDev(argv: string[]): Promise<void> {
       { flag: "--config <path>", description: "manifest path (default: mcp.json)" },
       { flag: "--cwd <path>", description: "working directory (default: .)" },
       { flag: "--port <number>", description: "server port (default: 3333)" },
+      { flag: "--stdio", description: "serve MCP over stdin/stdout instead of HTTP" },
       { flag: "--no-watch", description: "disable file watching" },
       { flag: "--poll", description: "use polling for file watching" },
       { flag: "--quiet", description: "minimal output" },
@@ -724,15 +717,21 @@ export async function runDev(argv: string[]): Promise<void> {
     process.exit(1);
   }
 
-  const toolsDir = normalized.toolsDir ?? "tools";
-  const resourcesDir = normalized.resourcesDir ?? "resources";
-  const promptsDir = normalized.promptsDir ?? "prompts";
-
   let child: ReturnType<typeof spawn> | null = null;
   let closeWatcher: (() => void) | null = null;
   let started = false;
   let lastChange: string | undefined;
 
+  /**
+   * Print a dev status line, keeping stdout free for the stdio transport.
+   */
+  const log = (line: string) => {
+    // eslint-disable-next-line no-console
+    if (stdio) console.error(line);
+    // eslint-disable-next-line no-console
+    else console.log(line);
+  };
+
   /**
    * Log a restart banner with the last change filename.
    */
@@ -740,10 +739,7 @@ export async function runDev(argv: string[]): Promise<void> {
     if (!started) return;
     const detail = lastChange ? ` ${colorize.dim(lastChange)}` : "";
     lastChange = undefined;
-    // eslint-disable-next-line no-console
-    console.log(
-      `${colorize.cyan(symbols.step)} ${colorize.gray("Restarting dev server")}${detail}`,
-    );
+    log(`${colorize.cyan(symbols.step)} ${colorize.gray("Restarting dev server")}${detail}`);
   };
 
   /**
@@ -775,6 +771,8 @@ export async function runDev(argv: string[]): Promise<void> {
       DZX_DEV_MODE: devMode,
       DZX_DEV_BANNER: "0",
       DZX_LOG_LEVEL: logLevel,
+      DZX_WATCH: watchEnabled ? "1" : "0",
+      ...(stdio ? { DZX_TRANSPORT: "stdio" } : {}),
     };
     if (normalized.runtime === "deno") {
       const denoArgs = ["run"];
@@ -793,9 +791,9 @@ export async function runDev(argv: string[]): Promise<void> {
     }
 
     const cmd = "node";
-    const nodeArgs = usesTs
-      ? ["--import", "tsx", entryPath]
-      : [watchEnabled ? "--watch" : "", entryPath].filter(Boolean);
+    // No `node --watch`: it would restart on every tool change, which the runtime
+    // hot-reloads in-process; dzx's own watcher below restarts for everything else.
+    const nodeArgs = usesTs ? ["--import", "tsx", entryPath] : [entryPath];
     const env = port ? { ...envBase, PORT: String(port) } : envBase;
     child = spawn(cmd, nodeArgs, { stdio: "inherit", cwd, env, detached: true });
     child.on("error", (err) => {
@@ -810,12 +808,15 @@ export async function runDev(argv: string[]): Promise<void> {
 
     if (!started) {
       started = true;
-      printBanner("dev");
+      printBanner("dev", undefined, stdio ? "stderr" : "stdout");
       const infoItems = [
         { label: "name", value: normalized.name },
         { label: "runtime", value: normalized.runtime },
         { label: "entry", value: path.relative(cwd, entryPath) || normalized.entry },
       ];
+      if (stdio) {
+        infoItems.push({ label: "transport", value: "stdio" });
+      }
       if (watchEnabled) {
         infoItems.push({ label: "watch", value: "tools, resources, prompts" });
       }
@@ -826,11 +827,9 @@ export async function runDev(argv: string[]): Promise<void> {
       const formatLine = (label: string, value: string) =>
         `${colorize.gray(label.padEnd(maxLabel))} : ${colorize.cyan(value)}`;
       for (const item of infoItems) {
-        // eslint-disable-next-line no-console
-        console.log(`  ${formatLine(item.label, item.value)}`);
+        log(`  ${formatLine(item.label, item.value)}`);
       }
-      // eslint-disable-next-line no-console
-      console.log("");
+      log("");
     }
   };
 
@@ -838,21 +837,43 @@ export async function runDev(argv: string[]): Promise<void> {
 
   if (normalized.runtime === "node" && watchEnabled) {
     const envMode = process.env.DZX_ENV ?? process.env.NODE_ENV ?? "development";
-    const watchPaths = [
+    const restartFiles = new Set([
       entryPath,
       path.resolve(cwd, config),
-      path.resolve(cwd, toolsDir),
-      path.resolve(cwd, resourcesDir),
-      path.resolve(cwd, promptsDir),
       path.resolve(cwd, ".env"),
       path.resolve(cwd, ".env.local"),
       path.resolve(cwd, `.env.${envMode}`),
       path.resolve(cwd, `.env.${envMode}.local`),
-    ];
-    closeWatcher = await createWatcher(watchPaths, (filename) => {
-      lastChange = filename ? `change: ${filename}` : "change detected";
-      start();
-    });
+    ]);
+    // tools/resources/prompts are hot-reloaded in-process by the runtime. Any
+    // other source file may be imported by the entry or a tool, and ESM caches
+    // it for the life of the process, so changing one restarts the child.
+    const skipDirs = [
+      normalized.toolsDir ?? "tools",
+      normalized.resourcesDir ?? "resources",
+      normalized.promptsDir ?? "prompts",
+      manifest.build?.output ?? "dist",
+    ].map((dir) => path.resolve(cwd, dir));
+    /**
+     * Check whether a changed file needs a new dev process.
+     */
+    const needsRestart = (filePath: string) => {
+      const absolute = path.resolve(cwd, filePath);
+      if (restartFiles.has(absolute)) return true;
+      if (!DEV_SOURCE_EXTENSIONS.has(path.extname(absolute))) return false;
+      return !skipDirs.some((dir) => absolute.startsWith(`${dir}${path.sep}`));
+    };
+    closeWatcher = await createWatcher(
+      [cwd],
+      (filename) => {
+        lastChange = filename ? `change: ${path.relative(cwd, filename)}` : "change detected";
+        start();
+      },
+      {
+        filter: needsRestart,
+        onWarn: (message) => log(`${colorize.yellow("warn")} ${colorize.gray(message)}`),
+      },
+    );
   }
 
   /**
@@ -4,15 +4,18 @@ import { colorize, symbols } from "./format.js";
 /**
  * Render the CLI banner header.
  */
-export function printBanner(command: string, subtitle?: string): void {
+export function printBanner(
+  command: string,
+  subtitle?: string,
+  output: "stdout" | "stderr" = "stdout",
+): void {
   const version = getDzxVersion();
   const tail = subtitle ? ` ${colorize.gray(subtitle)}` : "";
-  // eslint-disable-next-line no-console
-  console.log(
+  const write = output === "stderr" ? console.error : console.log;
+  write(
     `${"\n"}${colorize.blue(symbols.brand)} ${colorize.bold(`dzx v${version}`)} ${colorize.gray(command)}${tail}`,
   );
-  // eslint-disable-next-line no-console
-  console.log("");
+  write("");
 }
 
 /**
@@ -1,18 +1,50 @@
 import fs from "node:fs";
 import path from "node:path";
 import { pathToFileURL } from "node:url";
-import { parseFrontmatter } from "./frontmatter.js";
+import { readToolDefinition, type ToolMetadata } from "../schema/index.js";
+import { type PromptInput, parseFrontmatter } from "./frontmatter.js";
 import { listFiles } from "./fs.js";
+import { detectMimeType } from "./mime.js";
+import {
+  loadStaticModule,
+  PROMPT_METADATA_EXPORT,
+  RESOURCE_METADATA_EXPORT,
+} from "./static-discovery.js";
+import {
+  createSignatureInference,
+  type SignatureInference,
+  TYPED_FILE_EXTENSIONS,
+} from "./type-inference.js";
+
+export { createSignatureInference } from "./type-inference.js";
 
 export type DiscoveredTool = {
   name: string;
+  /** Display title from defineTool; `annotations.title` is the fallback. */
+  title?: string;
   description?: string;
   file: string;
+  /** Export holding the handler when it is not the default: a name or `tools.<index>`. */
+  export?: string;
+  /** Set by static discovery when part of the file needs to run to be read. */
+  needsEvaluation?: string;
   location?: { line: number; column: number };
   inputSchema?: unknown;
   outputSchema?: unknown;
   inputSchemaSource?: "schema" | "jsdoc" | "signature" | "default";
   outputSchemaSource?: "schema" | "jsdoc" | "signature" | "default";
+  annotations?: ToolAnnotations;
+};
+
+/**
+ * Behavior hints for clients (MCP tool annotations).
+ */
+export type ToolAnnotations = {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
 };
 
 export type DiscoveredResource = {
@@ -20,13 +52,27 @@ export type DiscoveredResource = {
   description?: string;
   file: string;
   mediaType?: string;
+  /** True for code resources whose default export loads the contents. */
+  dynamic?: boolean;
+};
+
+export type DiscoveredResourceTemplate = {
+  name: string;
+  description?: string;
+  file: string;
+  /** RFC 6570 level 1 template, e.g. `resource://users/{id}`. */
+  uriTemplate: string;
+  variables: string[];
+  mimeType?: string;
 };
 
 export type DiscoveredPrompt = {
   name: string;
   description?: string;
   file: string;
-  inputs?: Array<{ name: string; type: string; description?: string }>;
+  inputs?: PromptInput[];
+  /** True for code prompts whose default export builds the messages. */
+  dynamic?: boolean;
 };
 
 const TOOL_FILE_EXTENSIONS = new Set([".ts", ".js", ".mjs", ".cjs"]);
@@ -63,7 +109,17 @@ function extractJSDocSummary(docBlock: string): string | undefined {
  * Locate the default export keyword in a file for error reporting.
  */
 function findDefaultExportLocation(content: string): { line: number; column: number } | undefined {
-  const match = content.match(/export\s+default/);
+  return findExportLocation(content, /export\s+default/);
+}
+
+/**
+ * Locate the first match of an export pattern as a 1-based line and column.
+ */
+function findExportLocation(
+  content: string,
+  pattern: RegExp,
+): { line: number; column: number } | undefined {
+  const match = content.match(pattern);
   if (!match?.index && match?.index !== 0) return undefined;
   const prefix = content.slice(0, match.index);
   const lines = prefix.split(/\r?\n/);
@@ -528,12 +584,68 @@ function inferSchemaFromSignature(content: string): {
   }
 
   if (signature.returnType) {
-    outputSchema = parseTypeString(signature.returnType);
+    const returnSchema = parseTypeString(signature.returnType);
+    // structuredContent must be an object, so other return types get no output schema.
+    if (returnSchema.type === "object") outputSchema = returnSchema;
   }
 
   return { inputSchema, outputSchema };
 }
 
+const ANNOTATION_HINTS = {
+  readOnly: "readOnlyHint",
+  destructive: "destructiveHint",
+  idempotent: "idempotentHint",
+  openWorld: "openWorldHint",
+} as const;
+
+/**
+ * Read tool annotations from JSDoc tags (`@readonly`, `@destructive`, `@idempotent`,
+ * `@openWorld`) and an `annotations` export, which wins per key.
+ * Both the hint names (`readOnlyHint`) and the short names (`readOnly`) are accepted.
+ */
+function readToolAnnotations(
+  exported: unknown,
+  docBlock: string | undefined,
+): ToolAnnotations | undefined {
+  const annotations: ToolAnnotations = {};
+  for (const [short, hint] of Object.entries(ANNOTATION_HINTS)) {
+    if (docBlock && new RegExp(`@${short}\\b`, "i").test(docBlock)) annotations[hint] = true;
+  }
+  if (exported && typeof exported === "object") {
+    const record = exported as Record<string, unknown>;
+    if (typeof record.title === "string") annotations.title = record.title;
+    for (const [short, hint] of Object.entries(ANNOTATION_HINTS)) {
+      const value = record[hint] ?? record[short];
+      if (typeof value === "boolean") annotations[hint] = value;
+    }
+  }
+  return Object.keys(annotations).length > 0 ? annotations : undefined;
+}
+
+/**
+ * List the tools a module exports besides its default: named `defineTool` exports
+ * and entries of a `tools` array. Array entries that are not definitions are kept
+ * without one so discovery can report them.
+ */
+function readNamedToolExports(
+  mod: Record<string, unknown>,
+): Array<{ ref: string; definition?: ToolMetadata }> {
+  const found: Array<{ ref: string; definition?: ToolMetadata }> = [];
+  for (const [key, value] of Object.entries(mod)) {
+    if (key === "default" || value === mod.default) continue;
+    const definition = readToolDefinition(value);
+    if (definition) found.push({ ref: key, definition });
+  }
+  if (Array.isArray(mod.tools)) {
+    mod.tools.forEach((value, index) => {
+      if (value === mod.default) return;
+      found.push({ ref: `tools.${index}`, definition: readToolDefinition(value) });
+    });
+  }
+  return found;
+}
+
 /**
  * Convert a tool file path to a tool name.
  */
@@ -545,6 +657,10 @@ function toolNameFromPath(relativeFile: string): string {
 export type DiscoverToolsOptions = {
   onWarn?: (message: string) => void;
   failOnInvalid?: boolean;
+  /** Re-import modules whose files changed since the last discovery. */
+  cacheBust?: boolean;
+  /** Read metadata without executing tool modules (see static-discovery.ts). */
+  static?: boolean;
 };
 
 /**
@@ -588,6 +704,33 @@ export async function discoverTools(
     }
     warn(message);
   };
+  let typeInference: SignatureInference | null | undefined;
+  /**
+   * Infer a TypeScript file's signature with the type checker, created on first use.
+   */
+  const inferTypedSignature = (file: string) => {
+    if (typeInference === undefined) {
+      const typedFiles = toolFiles.filter((item) => TYPED_FILE_EXTENSIONS.has(path.extname(item)));
+      typeInference = createSignatureInference(cwd, typedFiles);
+      if (!typeInference && typedFiles.length > 0) {
+        warn("typescript is not installed, so TypeScript signatures use the text-based parser");
+      }
+    }
+    return typeInference ? typeInference(file) : {};
+  };
+  // Static discovery's report for the file being processed.
+  let needsEvaluation: string | undefined;
+  /**
+   * Add a discovered tool unless another file already claimed its name.
+   */
+  const addTool = (tool: DiscoveredTool) => {
+    const existing = tools.find((item) => item.name === tool.name);
+    if (existing) {
+      fail(`Tool name ${tool.name} in ${tool.file} is already used by ${existing.file}`);
+      return;
+    }
+    tools.push(needsEvaluation ? { ...tool, needsEvaluation } : tool);
+  };
 
   for (const file of toolFiles) {
     const content = fs.readFileSync(file, "utf8");
@@ -599,19 +742,67 @@ export async function discoverTools(
     const info = extractDefaultExportInfo(content);
 
     try {
-      const fileUrl = pathToFileURL(file).href;
-      const mod = await import(fileUrl);
+      let mod: Record<string, unknown>;
+      needsEvaluation = undefined;
+      if (options.static) {
+        const loaded = await loadStaticModule(cwd, file, content);
+        mod = loaded.exports;
+        if (loaded.unresolved.length > 0) {
+          needsEvaluation = loaded.unresolved.join("; ");
+          warn(`${relativeFile} needs runtime evaluation: ${needsEvaluation}`);
+        }
+      } else {
+        const fileUrl = pathToFileURL(file);
+        if (options.cacheBust) {
+          fileUrl.searchParams.set("t", String(fs.statSync(file).mtimeMs));
+        }
+        mod = await import(fileUrl.href);
+      }
+
+      // Named exports and `tools` entries are separate tools with explicit names.
+      const namedTools = readNamedToolExports(mod);
+      for (const { ref, definition } of namedTools) {
+        const exportPattern = ref.startsWith("tools.")
+          ? /export\s+const\s+tools\b/
+          : new RegExp(`export\\s+(?:const|let|var)\\s+${ref.replace(/\$/g, "\\$")}\\b`);
+        const namedLocation = findExportLocation(content, exportPattern);
+        const namedLabel = formatLocation(relativeFile, namedLocation);
+        if (!definition) {
+          fail(`Tool file ${namedLabel} export ${ref} is not a defineTool definition`);
+          continue;
+        }
+        if (!definition.name) {
+          fail(`Tool file ${namedLabel} export ${ref} must set a name`);
+          continue;
+        }
+        addTool({
+          name: definition.name,
+          title: definition.title,
+          description: definition.description,
+          file: relativeFile,
+          export: ref,
+          location: namedLocation,
+          inputSchema: definition.input ?? defaultInputSchema,
+          outputSchema: definition.output ?? defaultOutputSchema,
+          inputSchemaSource: definition.input ? "schema" : "default",
+          outputSchemaSource: definition.output ? "schema" : "default",
+          annotations: readToolAnnotations(definition.annotations, undefined),
+        });
+      }
 
       const fn = mod.default;
       if (typeof fn !== "function") {
-        fail(`Tool file ${locationLabel} does not export a default function`);
+        if (namedTools.length === 0) {
+          fail(`Tool file ${locationLabel} does not export a default function`);
+        }
         continue;
       }
       if (fn.constructor?.name !== "AsyncFunction") {
         fail(`Tool file ${locationLabel} default export must be async`);
       }
 
-      const description = info.description;
+      const definition = readToolDefinition(fn);
+      const description = definition?.description ?? info.description;
       const camelName = name.replace(/[-_]+([a-zA-Z0-9])/g, (_, char) =>
         String(char).toUpperCase(),
       );
@@ -623,7 +814,12 @@ export async function discoverTools(
       let inputSchemaSource: DiscoveredTool["inputSchemaSource"];
       let outputSchemaSource: DiscoveredTool["outputSchemaSource"];
 
-      if (schemaExport && typeof schemaExport === "object") {
+      if (definition) {
+        inputSchema = definition.input;
+        outputSchema = definition.output;
+        if (inputSchema) inputSchemaSource = "schema";
+        if (outputSchema) outputSchemaSource = "schema";
+      } else if (schemaExport && typeof schemaExport === "object") {
         const schemaObject = schemaExport as SchemaExport;
         if (schemaObject.input || schemaObject.output) {
           inputSchema = schemaObject.input;
@@ -633,9 +829,10 @@ export async function discoverTools(
         }
       }
 
-      // Schema resolution order: explicit export → JSDoc → signature → default.
+      // Schema resolution order: defineTool or explicit export → JSDoc → signature → default.
+      // A defineTool definition is authoritative, so nothing is inferred for it.
       // Fallback: Infer from JSDoc if no inputSchema or outputSchema
-      if ((!inputSchema || !outputSchema) && info?.docBlock) {
+      if ((!inputSchema || !outputSchema) && info?.docBlock && !definition) {
         const inferred = inferSchemaFromDocBlock(info.docBlock);
         if (!inputSchema && inferred.inputSchema) {
           inputSchema = inferred.inputSchema;
@@ -656,15 +853,21 @@ export async function discoverTools(
         }
       }
 
-      // Fallback: Infer from function signature/destructuring
-      if (!inputSchema || !outputSchema) {
+      // Fallback: Infer from the signature, resolved by the type checker for TypeScript
+      // files and read from the source text (including destructuring) otherwise.
+      if ((!inputSchema || !outputSchema) && !definition) {
+        const typed = TYPED_FILE_EXTENSIONS.has(path.extname(file))
+          ? inferTypedSignature(file)
+          : {};
         const signature = inferSchemaFromSignature(content);
-        if (!inputSchema && signature.inputSchema) {
-          inputSchema = signature.inputSchema;
+        const signatureInput = typed.inputSchema ?? signature.inputSchema;
+        const signatureOutput = typed.outputSchema ?? signature.outputSchema;
+        if (!inputSchema && signatureInput) {
+          inputSchema = signatureInput;
           inputSchemaSource = "signature";
         }
-        if (!outputSchema && signature.outputSchema) {
-          outputSchema = signature.outputSchema;
+        if (!outputSchema && signatureOutput) {
+          outputSchema = signatureOutput;
           outputSchemaSource = "signature";
         }
       }
@@ -683,8 +886,9 @@ export async function discoverTools(
         );
       }
 
-      tools.push({
-        name,
+      addTool({
+        name: definition?.name ?? name,
+        title: definition?.title,
         description,
         file: relativeFile,
         location,
@@ -692,6 +896,10 @@ export async function discoverTools(
         outputSchema,
         inputSchemaSource,
         outputSchemaSource,
+        annotations: readToolAnnotations(
+          definition ? definition.annotations : mod.annotations,
+          info.docBlock,
+        ),
       });
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
@@ -705,48 +913,288 @@ export async function discoverTools(
   return tools;
 }
 
+const TEMPLATE_PARAM = /\[([A-Za-z_][A-Za-z0-9_]*)\]/g;
+
+/** Suffix of the JSON file that overrides metadata for a resource (`logo.png.meta.json`). */
+const RESOURCE_SIDECAR_SUFFIX = ".meta.json";
+
+export type DiscoverResourcesOptions = {
+  onWarn?: (message: string) => void;
+  /** Re-import modules whose files changed since the last discovery. */
+  cacheBust?: boolean;
+  /** Read code module metadata without executing the modules (see static-discovery.ts). */
+  static?: boolean;
+};
+
+/**
+ * Default resource names: the base name, widened to include the extension and
+ * then the directory only for files that would otherwise share a name.
+ */
+function resourceFallbackNames(files: string[]): Map<string, string> {
+  const widen = [
+    (file: string) => path.basename(file),
+    (file: string) => file.split(path.sep).join("/"),
+  ];
+  const names = new Map(files.map((file) => [file, path.basename(file, path.extname(file))]));
+  for (const candidate of widen) {
+    const counts = new Map<string, number>();
+    for (const name of names.values()) counts.set(name, (counts.get(name) ?? 0) + 1);
+    for (const [file, name] of names) {
+      if ((counts.get(name) ?? 0) > 1) names.set(file, candidate(file));
+    }
+  }
+  return names;
+}
+
+/**
+ * Import a discovered module, optionally bypassing the module cache.
+ */
+async function importModule(file: string, cacheBust?: boolean): Promise<Record<string, unknown>> {
+  const fileUrl = pathToFileURL(file);
+  if (cacheBust) {
+    fileUrl.searchParams.set("t", String(fs.statSync(file).mtimeMs));
+  }
+  return (await import(fileUrl.href)) as Record<string, unknown>;
+}
+
 /**
- * Discover resources from a resources directory.
+ * Load a resource or prompt code module: imported normally, or read statically
+ * (reporting what needs runtime evaluation) when `options.static` is set.
  */
-export function discoverResources(cwd: string, resourcesDir: string): DiscoveredResource[] {
+async function loadCodeModule(
+  cwd: string,
+  file: string,
+  metadataExport: RegExp,
+  options: DiscoverResourcesOptions,
+): Promise<Record<string, unknown>> {
+  if (!options.static) return importModule(file, options.cacheBust);
+  const loaded = await loadStaticModule(cwd, file, fs.readFileSync(file, "utf8"), metadataExport);
+  if (loaded.unresolved.length > 0) {
+    const relativeFile = path.relative(cwd, file);
+    options.onWarn?.(`${relativeFile} needs runtime evaluation: ${loaded.unresolved.join("; ")}`);
+  }
+  return loaded.exports;
+}
+
+/**
+ * Read the sidecar metadata for a resource file, if present.
+ */
+function readResourceSidecar(
+  fullPath: string,
+  onWarn?: (message: string) => void,
+): { name?: string; description?: string; mimeType?: string } {
+  const sidecarPath = `${fullPath}${RESOURCE_SIDECAR_SUFFIX}`;
+  if (!fs.existsSync(sidecarPath)) return {};
+  try {
+    const data = JSON.parse(fs.readFileSync(sidecarPath, "utf8")) as Record<string, unknown>;
+    return {
+      name: typeof data.name === "string" ? data.name : undefined,
+      description: typeof data.description === "string" ? data.description : undefined,
+      mimeType: typeof data.mimeType === "string" ? data.mimeType : undefined,
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    onWarn?.(`Invalid resource sidecar ${sidecarPath}: ${message}`);
+    return {};
+  }
+}
+
+/**
+ * Discover file and code resources from a resources directory.
+ * Code files with `[param]` segments are templates (see discoverResourceTemplates).
+ */
+export async function discoverResources(
+  cwd: string,
+  resourcesDir: string,
+  options: DiscoverResourcesOptions = {},
+): Promise<DiscoveredResource[]> {
   const resourcesPath = path.resolve(cwd, resourcesDir);
   if (!fs.existsSync(resourcesPath)) return [];
-  const files = listFiles(resourcesPath).filter((file) => file.endsWith(".md"));
-  return files
-    .sort((a, b) => a.localeCompare(b))
-    .map((file) => {
-      const fullPath = path.join(resourcesPath, file);
-      const content = fs.readFileSync(fullPath, "utf8");
-      const parsed = parseFrontmatter(content);
-      const name = parsed.frontmatter.name ?? path.basename(file, path.extname(file));
-      return {
-        name,
-        description: parsed.frontmatter.description,
-        file: path.relative(cwd, fullPath),
-        mediaType: "text/markdown",
-      };
-    });
+  const files = listFiles(resourcesPath)
+    .filter((file) => !path.basename(file).startsWith("."))
+    .filter((file) => !file.endsWith(RESOURCE_SIDECAR_SUFFIX))
+    .filter(
+      (file) =>
+        !TOOL_FILE_EXTENSIONS.has(path.extname(file)) ||
+        !new RegExp(TEMPLATE_PARAM.source).test(file),
+    )
+    .sort((a, b) => a.localeCompare(b));
+
+  const resources: DiscoveredResource[] = [];
+  const fallbackNames = resourceFallbackNames(files);
+  /**
+   * Add a discovered resource unless another file already claimed its URI.
+   */
+  const addResource = (resource: DiscoveredResource) => {
+    const existing = resources.find((item) => item.name === resource.name);
+    if (existing) {
+      options.onWarn?.(
+        `Resource name ${resource.name} in ${resource.file} is already used by ${existing.file}`,
+      );
+      return;
+    }
+    resources.push(resource);
+  };
+  for (const file of files) {
+    const fullPath = path.join(resourcesPath, file);
+    const relativeFile = path.relative(cwd, fullPath);
+    const fallbackName = fallbackNames.get(file) ?? path.basename(file, path.extname(file));
+    if (!TOOL_FILE_EXTENSIONS.has(path.extname(file))) {
+      // Precedence: sidecar, then Markdown frontmatter, then the file name and extension.
+      const sidecar = readResourceSidecar(fullPath, options.onWarn);
+      const frontmatter = file.endsWith(".md")
+        ? parseFrontmatter(fs.readFileSync(fullPath, "utf8")).frontmatter
+        : {};
+      addResource({
+        name: sidecar.name ?? frontmatter.name ?? fallbackName,
+        description: sidecar.description ?? frontmatter.description,
+        file: relativeFile,
+        mediaType: sidecar.mimeType ?? frontmatter.mimeType ?? detectMimeType(file),
+      });
+      continue;
+    }
+    try {
+      const mod = await loadCodeModule(cwd, fullPath, RESOURCE_METADATA_EXPORT, options);
+      if (typeof mod.default !== "function") {
+        options.onWarn?.(`Resource file ${relativeFile} does not export a default loader`);
+        continue;
+      }
+      addResource({
+        name: typeof mod.name === "string" ? mod.name : fallbackName,
+        description: typeof mod.description === "string" ? mod.description : undefined,
+        file: relativeFile,
+        mediaType: typeof mod.mimeType === "string" ? mod.mimeType : undefined,
+        dynamic: true,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      options.onWarn?.(`Failed to load resource file ${relativeFile}: ${message}`);
+    }
+  }
+  return resources;
+}
+
+/**
+ * Discover resource template modules (`resources/users/[id].ts`) from a resources directory.
+ */
+export async function discoverResourceTemplates(
+  cwd: string,
+  resourcesDir: string,
+  options: DiscoverResourcesOptions = {},
+): Promise<DiscoveredResourceTemplate[]> {
+  const resourcesPath = path.resolve(cwd, resourcesDir);
+  if (!fs.existsSync(resourcesPath)) return [];
+  const files = listFiles(resourcesPath)
+    .filter((file) => TOOL_FILE_EXTENSIONS.has(path.extname(file)))
+    .filter((file) => new RegExp(TEMPLATE_PARAM.source).test(file))
+    .sort((a, b) => a.localeCompare(b));
+
+  const templates: DiscoveredResourceTemplate[] = [];
+  for (const file of files) {
+    const fullPath = path.join(resourcesPath, file);
+    const relativeFile = path.relative(cwd, fullPath);
+    const route = file
+      .replace(/\.[^.]+$/, "")
+      .split(path.sep)
+      .join("/");
+    const variables = Array.from(route.matchAll(TEMPLATE_PARAM), (match) => match[1]);
+    if (new Set(variables).size !== variables.length) {
+      options.onWarn?.(`Resource template ${relativeFile} repeats a URI parameter`);
+      continue;
+    }
+    try {
+      const mod = await loadCodeModule(cwd, fullPath, RESOURCE_METADATA_EXPORT, options);
+      if (typeof mod.default !== "function") {
+        options.onWarn?.(`Resource template ${relativeFile} does not export a default loader`);
+        continue;
+      }
+      const fallbackName = route.replace(TEMPLATE_PARAM, "$1").split("/").join("-");
+      templates.push({
+        name: typeof mod.name === "string" ? mod.name : fallbackName,
+        description: typeof mod.description === "string" ? mod.description : undefined,
+        file: relativeFile,
+        uriTemplate: `resource://${route.replace(TEMPLATE_PARAM, "{$1}")}`,
+        variables,
+        mimeType: typeof mod.mimeType === "string" ? mod.mimeType : undefined,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      options.onWarn?.(`Failed to load resource template ${relativeFile}: ${message}`);
+    }
+  }
+  return templates;
+}
+
+export type DiscoverPromptsOptions = DiscoverResourcesOptions;
+
+/**
+ * Keep well-formed argument declarations from a prompt module's `inputs` export.
+ */
+function readPromptInputs(value: unknown): PromptInput[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.flatMap((entry) => {
+    if (typeof entry !== "object" || entry === null) return [];
+    const input = entry as Record<string, unknown>;
+    if (typeof input.name !== "string") return [];
+    return [
+      {
+        name: input.name,
+        type: typeof input.type === "string" ? input.type : "string",
+        description: typeof input.description === "string" ? input.description : undefined,
+        required: input.required === true,
+        enum: Array.isArray(input.enum) ? input.enum.map(String) : undefined,
+      },
+    ];
+  });
 }
 
 /**
- * Discover prompts from a prompts directory.
+ * Discover Markdown and code prompts from a prompts directory.
  */
-export function discoverPrompts(cwd: string, promptsDir: string): DiscoveredPrompt[] {
+export async function discoverPrompts(
+  cwd: string,
+  promptsDir: string,
+  options: DiscoverPromptsOptions = {},
+): Promise<DiscoveredPrompt[]> {
   const promptsPath = path.resolve(cwd, promptsDir);
   if (!fs.existsSync(promptsPath)) return [];
-  const files = listFiles(promptsPath).filter((file) => file.endsWith(".md"));
-  return files
-    .sort((a, b) => a.localeCompare(b))
-    .map((file) => {
-      const fullPath = path.join(promptsPath, file);
+  const files = listFiles(promptsPath)
+    .filter((file) => file.endsWith(".md") || TOOL_FILE_EXTENSIONS.has(path.extname(file)))
+    .sort((a, b) => a.localeCompare(b));
+
+  const prompts: DiscoveredPrompt[] = [];
+  for (const file of files) {
+    const fullPath = path.join(promptsPath, file);
+    const relativeFile = path.relative(cwd, fullPath);
+    const fallbackName = path.basename(file, path.extname(file));
+    if (file.endsWith(".md")) {
       const content = fs.readFileSync(fullPath, "utf8");
       const parsed = parseFrontmatter(content);
-      const name = parsed.frontmatter.name ?? path.basename(file, path.extname(file));
-      return {
-        name,
+      prompts.push({
+        name: parsed.frontmatter.name ?? fallbackName,
         description: parsed.frontmatter.description,
-        file: path.relative(cwd, fullPath),
+        file: relativeFile,
         inputs: parsed.frontmatter.inputs,
-      };
-    });
+      });
+      continue;
+    }
+    try {
+      const mod = await loadCodeModule(cwd, fullPath, PROMPT_METADATA_EXPORT, options);
+      if (typeof mod.default !== "function") {
+        options.onWarn?.(`Prompt file ${relativeFile} does not export a default function`);
+        continue;
+      }
+      prompts.push({
+        name: typeof mod.name === "string" ? mod.name : fallbackName,
+        description: typeof mod.description === "string" ? mod.description : undefined,
+        file: relativeFile,
+        inputs: readPromptInputs(mod.inputs),
+        dynamic: true,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      options.onWarn?.(`Failed to load prompt file ${relativeFile}: ${message}`);
+    }
+  }
+  return prompts;
 }
@@ -1,7 +1,17 @@
+export type PromptInput = {
+  name: string;
+  type: string;
+  description?: string;
+  required?: boolean;
+  /** Allowed values, offered by completion/complete. */
+  enum?: string[];
+};
+
 export type Frontmatter = {
   name?: string;
   description?: string;
-  inputs?: Array<{ name: string; type: string; description?: string }>;
+  mimeType?: string;
+  inputs?: PromptInput[];
 };
 
 type ParsedFrontmatter = {
@@ -34,7 +44,7 @@ export function parseFrontmatter(content: string): ParsedFrontmatter {
   const body = lines.slice(endIndex + 1).join("\n");
   const frontmatter: Frontmatter = {};
   let inInputs = false;
-  let currentInput: { name: string; type: string; description?: string } | null = null;
+  let currentInput: PromptInput | null = null;
 
   for (const rawLine of frontmatterLines) {
     const line = rawLine.trim();
@@ -63,6 +73,20 @@ export function parseFrontmatter(content: string): ParsedFrontmatter {
         currentInput.description = line.replace("description:", "").trim();
         continue;
       }
+      if (currentInput && line.startsWith("required:")) {
+        currentInput.required = line.replace("required:", "").trim() === "true";
+        continue;
+      }
+      if (currentInput && line.startsWith("enum:")) {
+        currentInput.enum = line
+          .replace("enum:", "")
+          .trim()
+          .replace(/^\[|\]$/g, "")
+          .split(",")
+          .map((value) => value.trim().replace(/^["']|["']$/g, ""))
+          .filter(Boolean);
+        continue;
+      }
     }
 
     const kvMatch = line.match(/^([a-zA-Z0-9_-]+):\s*(.+)$/);
@@ -71,6 +95,7 @@ export function parseFrontmatter(content: string): ParsedFrontmatter {
       const value = kvMatch[2].trim();
       if (key === "name") frontmatter.name = value;
       if (key === "description") frontmatter.description = value;
+      if (key === "mimeType") frontmatter.mimeType = value;
     }
   }
 
@@ -15,11 +15,35 @@ const ManifestSchema = z
         methods: z
           .object({
             resourcesTemplatesList: z.boolean().optional(),
+            resourcesSubscribe: z.boolean().optional(),
             completionComplete: z.boolean().optional(),
             notificationsComplete: z.boolean().optional(),
           })
           .strict()
           .optional(),
+        pageSize: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    isolation: z
+      .object({
+        mode: z.enum(["inline", "worker"]).optional(),
+        tools: z.record(z.string(), z.enum(["inline", "worker"])).optional(),
+        resourceLimits: z
+          .object({
+            maxOldGenerationSizeMb: z.number().positive().optional(),
+            maxYoungGenerationSizeMb: z.number().positive().optional(),
+            codeRangeSizeMb: z.number().positive().optional(),
+            stackSizeMb: z.number().positive().optional(),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict()
+      .optional(),
+    discovery: z
+      .object({
+        mode: z.enum(["import", "static"]).optional(),
       })
       .strict()
       .optional(),
@@ -103,6 +127,7 @@ export function validateManifest(manifest: Manifest): string[] {
         () => `missing required field "${pathLabel}"`,
       )
       .with({ code: "invalid_value" }, () => {
+        if (pathLabel !== "runtime") return `invalid ${pathLabel}: ${issue.message}`;
         const received =
           "received" in issue ? (issue as { received?: unknown }).received : undefined;
         return `unsupported runtime: ${received ?? "unknown"}`;
@@ -0,0 +1,64 @@
+import path from "node:path";
+
+const MIME_TYPES: Record<string, string> = {
+  ".md": "text/markdown",
+  ".markdown": "text/markdown",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".tsv": "text/tab-separated-values",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".css": "text/css",
+  ".xml": "application/xml",
+  ".json": "application/json",
+  ".jsonl": "application/jsonl",
+  ".ndjson": "application/x-ndjson",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+  ".toml": "application/toml",
+  ".sql": "application/sql",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".ogg": "audio/ogg",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".gz": "application/gzip",
+  ".wasm": "application/wasm",
+};
+
+const TEXT_APPLICATION_TYPES = new Set([
+  "application/json",
+  "application/jsonl",
+  "application/x-ndjson",
+  "application/xml",
+  "application/yaml",
+  "application/toml",
+  "application/sql",
+  "application/javascript",
+]);
+
+/**
+ * Detect a MIME type from a file extension.
+ */
+export function detectMimeType(file: string): string {
+  return MIME_TYPES[path.extname(file).toLowerCase()] ?? "application/octet-stream";
+}
+
+/**
+ * Return true when contents of a MIME type should be served as text rather than base64.
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  const base = mimeType.split(";")[0].trim().toLowerCase();
+  if (base.startsWith("text/")) return true;
+  if (base.endsWith("+json") || base.endsWith("+xml")) return true;
+  return TEXT_APPLICATION_TYPES.has(base);
+}
@@ -0,0 +1,360 @@
+import path from "node:path";
+import { Worker } from "node:worker_threads";
+import { build } from "esbuild";
+import type ts from "typescript";
+import { TOOL_DEFINITION } from "../schema/index.js";
+import type { StaticJob, StaticValue, StaticWorkerMessage } from "./static-worker.js";
+import { loadTypeScript } from "./type-inference.js";
+
+const STATIC_EVALUATION_TIMEOUT_MS = 10_000;
+
+/** Exports tool discovery reads: schemas, annotations, and `tools` arrays. */
+export const TOOL_METADATA_EXPORT =
+  /^(?:annotations|tools|schema|toolSchema|defaultSchema|\w+Schema)$/;
+
+/** Exports resource and resource template discovery reads. */
+export const RESOURCE_METADATA_EXPORT = /^(?:name|description|mimeType)$/;
+
+/** Exports code prompt discovery reads. */
+export const PROMPT_METADATA_EXPORT = /^(?:name|description|inputs)$/;
+
+/** Replaces `handler` properties so evaluating a definition never pulls in handler code. */
+const HANDLER_STUB = "async () => undefined";
+
+/**
+ * Tool module exports rebuilt without running the module.
+ */
+export type StaticModule = {
+  /** Exports discovery reads; handlers are stubs that keep their async-ness. */
+  exports: Record<string, unknown>;
+  /** What could not be read statically and needs the module to run. */
+  unresolved: string[];
+};
+
+/**
+ * Build a stand-in for a function export.
+ */
+function stubFunction(isAsync: boolean): () => unknown {
+  return isAsync ? async () => undefined : () => undefined;
+}
+
+/**
+ * Rebuild a value sent by the static worker. Definitions become stub handlers
+ * carrying their metadata, with JSON Schemas in place of the Zod schemas.
+ */
+function deserialize(value: StaticValue): unknown {
+  if (value.kind === "value") return value.value;
+  if (value.kind === "array") return value.items.map(deserialize);
+  if (value.kind === "object") {
+    return Object.fromEntries(
+      Object.entries(value.entries).map(([key, item]) => [key, deserialize(item)]),
+    );
+  }
+  if (value.kind === "function") return stubFunction(value.async);
+  return Object.assign(stubFunction(true), { [TOOL_DEFINITION]: value.metadata });
+}
+
+/**
+ * Check whether a node is a function expression or arrow function.
+ */
+function isFunctionLike(typescript: typeof ts, node: ts.Node | undefined): boolean {
+  return Boolean(
+    node && (typescript.isArrowFunction(node) || typescript.isFunctionExpression(node)),
+  );
+}
+
+/**
+ * Check whether a node carries a modifier such as `export`, `default`, or `async`.
+ */
+function hasModifier(typescript: typeof ts, node: ts.Node, kind: ts.SyntaxKind): boolean {
+  const modifiers = typescript.canHaveModifiers(node) ? typescript.getModifiers(node) : undefined;
+  return Boolean(modifiers?.some((item) => item.kind === kind));
+}
+
+/**
+ * Run the extracted module in a worker and collect the requested exports.
+ */
+function evaluateInWorker(job: StaticJob): Promise<Record<string, StaticValue>> {
+  return new Promise((resolve, reject) => {
+    // Resolved from dist/<entry>/ since this module is bundled into several entries.
+    const worker = new Worker(new URL("../core/static-worker.js", import.meta.url), {
+      workerData: job,
+      stdout: true,
+      stderr: true,
+    });
+    // Module output would corrupt `dzx inspect --json`, so it is discarded.
+    worker.stdout.resume();
+    worker.stderr.resume();
+    const timer = setTimeout(() => {
+      finish(new Error(`evaluation timed out after ${STATIC_EVALUATION_TIMEOUT_MS}ms`));
+    }, STATIC_EVALUATION_TIMEOUT_MS);
+    let settled = false;
+
+    /**
+     * Settle once and always tear the worker down.
+     */
+    const finish = (error: Error | null, exports?: Record<string, StaticValue>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      worker.terminate().catch(() => {});
+      if (error || !exports) reject(error ?? new Error("evaluation failed"));
+      else resolve(exports);
+    };
+
+    worker.on("message", (message: StaticWorkerMessage) => {
+      if (message.type === "result") finish(null, message.exports);
+      else finish(new Error(message.message));
+    });
+    worker.on("error", (err: Error) => finish(err));
+    worker.on("exit", (code) => finish(new Error(`evaluation exited with code ${code}`)));
+  });
+}
+
+/**
+ * Read a module's exports without importing it.
+ * The source is parsed to find function exports (stubbed by their async-ness)
+ * and metadata exports (`metadataExport`, plus `defineTool` definitions). Only
+ * metadata exports and the top-level code they reference are bundled and
+ * evaluated, in a worker thread; `handler` bodies of definitions are replaced,
+ * so handler code and its imports never run.
+ */
+export async function loadStaticModule(
+  cwd: string,
+  file: string,
+  content: string,
+  metadataExport: RegExp = TOOL_METADATA_EXPORT,
+): Promise<StaticModule> {
+  const typescript = loadTypeScript(cwd);
+  if (!typescript) {
+    return {
+      exports: { default: stubFunction(true) },
+      unresolved: ["typescript is not installed, so tool exports cannot be parsed"],
+    };
+  }
+  const { SyntaxKind } = typescript;
+  const source = typescript.createSourceFile(
+    file,
+    content,
+    typescript.ScriptTarget.Latest,
+    true,
+    /\.[cm]?ts$/.test(file) ? typescript.ScriptKind.TS : typescript.ScriptKind.JS,
+  );
+
+  const exports: Record<string, unknown> = {};
+  const unresolved: string[] = [];
+  const evaluate = new Set<string>();
+  const roots: ts.Node[] = [];
+  // `local as exported` pairs from `export { ... }` lists that are evaluated.
+  const aliases: string[] = [];
+  const bindings = new Map<string, ts.Statement>();
+  const definedBy = new Map<string, ts.Node>();
+  const toolFactories = new Set<string>();
+
+  for (const statement of source.statements) {
+    if (typescript.isImportDeclaration(statement)) {
+      const clause = statement.importClause;
+      if (clause?.name) bindings.set(clause.name.text, statement);
+      const named = clause?.namedBindings;
+      if (named && typescript.isNamespaceImport(named)) bindings.set(named.name.text, statement);
+      if (named && typescript.isNamedImports(named)) {
+        for (const element of named.elements) {
+          bindings.set(element.name.text, statement);
+          if ((element.propertyName ?? element.name).text === "defineTool") {
+            toolFactories.add(element.name.text);
+          }
+        }
+      }
+    } else if (typescript.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!typescript.isIdentifier(declaration.name)) continue;
+        bindings.set(declaration.name.text, statement);
+        if (declaration.initializer) definedBy.set(declaration.name.text, declaration.initializer);
+      }
+    } else if (
+      (typescript.isFunctionDeclaration(statement) ||
+        typescript.isClassDeclaration(statement) ||
+        typescript.isEnumDeclaration(statement)) &&
+      statement.name
+    ) {
+      bindings.set(statement.name.text, statement);
+      definedBy.set(statement.name.text, statement);
+    }
+  }
+
+  /**
+   * Check whether an initializer calls `defineTool`.
+   */
+  const isToolDefinition = (node: ts.Node | undefined) =>
+    Boolean(
+      node &&
+        typescript.isCallExpression(node) &&
+        typescript.isIdentifier(node.expression) &&
+        toolFactories.has(node.expression.text),
+    );
+
+  for (const statement of source.statements) {
+    if (typescript.isFunctionDeclaration(statement)) {
+      if (!hasModifier(typescript, statement, SyntaxKind.ExportKeyword)) continue;
+      const isDefault = hasModifier(typescript, statement, SyntaxKind.DefaultKeyword);
+      const name = isDefault ? "default" : statement.name?.text;
+      if (name)
+        exports[name] = stubFunction(hasModifier(typescript, statement, SyntaxKind.AsyncKeyword));
+    } else if (typescript.isVariableStatement(statement)) {
+      if (!hasModifier(typescript, statement, SyntaxKind.ExportKeyword)) continue;
+      for (const declaration of statement.declarationList.declarations) {
+        if (!typescript.isIdentifier(declaration.name)) continue;
+        const name = declaration.name.text;
+        const initializer = declaration.initializer;
+        if (initializer && isFunctionLike(typescript, initializer)) {
+          exports[name] = stubFunction(
+            hasModifier(typescript, initializer, SyntaxKind.AsyncKeyword),
+          );
+        } else if (metadataExport.test(name) || isToolDefinition(initializer)) {
+          evaluate.add(name);
+          roots.push(statement);
+        }
+      }
+    } else if (typescript.isExportAssignment(statement) && !statement.isExportEquals) {
+      const expression = statement.expression;
+      const target = typescript.isIdentifier(expression)
+        ? definedBy.get(expression.text)
+        : expression;
+      if (
+        target &&
+        (isFunctionLike(typescript, target) || typescript.isFunctionDeclaration(target))
+      ) {
+        exports.default = stubFunction(hasModifier(typescript, target, SyntaxKind.AsyncKeyword));
+      } else {
+        evaluate.add("default");
+        roots.push(statement);
+      }
+    } else if (typescript.isExportDeclaration(statement) && !statement.isTypeOnly) {
+      const clause = statement.exportClause;
+      if (statement.moduleSpecifier || !clause || !typescript.isNamedExports(clause)) {
+        unresolved.push("re-exports from other modules are not read statically");
+        const named = clause && typescript.isNamedExports(clause) ? clause.elements : [];
+        if (named.some((element) => element.name.text === "default")) {
+          exports.default = stubFunction(true);
+        }
+        continue;
+      }
+      for (const element of clause.elements) {
+        if (element.isTypeOnly) continue;
+        const name = element.name.text;
+        const local = (element.propertyName ?? element.name).text;
+        const target = definedBy.get(local);
+        const binding = bindings.get(local);
+        if (
+          target &&
+          (isFunctionLike(typescript, target) || typescript.isFunctionDeclaration(target))
+        ) {
+          exports[name] = stubFunction(hasModifier(typescript, target, SyntaxKind.AsyncKeyword));
+        } else if (binding && typescript.isImportDeclaration(binding) && name === "default") {
+          // Evaluating it would run the imported handler module.
+          exports.default = stubFunction(true);
+          unresolved.push(`default export ${local} is imported, so it is assumed to be async`);
+        } else if (name === "default" || metadataExport.test(name) || isToolDefinition(target)) {
+          if (!binding) {
+            unresolved.push(`export ${local} is not declared in this file`);
+            continue;
+          }
+          evaluate.add(name);
+          aliases.push(local === name ? name : `${local} as ${name}`);
+          roots.push(binding);
+        }
+      }
+    }
+  }
+
+  if (evaluate.size === 0) return { exports, unresolved };
+
+  // Collect the top-level statements the evaluated exports depend on.
+  const included = new Set<ts.Node>(roots);
+  const replacements: Array<{ start: number; end: number; text: string }> = [];
+  const pending = [...roots];
+  /**
+   * Record identifiers a node references, skipping `handler` implementations.
+   */
+  const visit = (node: ts.Node) => {
+    if (
+      typescript.isPropertyAssignment(node) &&
+      typescript.isIdentifier(node.name) &&
+      node.name.text === "handler"
+    ) {
+      const start = node.initializer.getStart(source);
+      replacements.push({ start, end: node.initializer.end, text: HANDLER_STUB });
+      return;
+    }
+    if (typescript.isMethodDeclaration(node) && node.name.getText(source) === "handler") {
+      const text = `handler: ${HANDLER_STUB}`;
+      replacements.push({ start: node.getStart(source), end: node.end, text });
+      return;
+    }
+    if (typescript.isIdentifier(node)) {
+      const parent = node.parent;
+      const isPropertyName =
+        (typescript.isPropertyAccessExpression(parent) && parent.name === node) ||
+        (typescript.isPropertyAssignment(parent) && parent.name === node);
+      const statement = isPropertyName ? undefined : bindings.get(node.text);
+      if (statement && !included.has(statement)) {
+        included.add(statement);
+        if (!typescript.isImportDeclaration(statement)) pending.push(statement);
+      }
+    }
+    typescript.forEachChild(node, visit);
+  };
+  while (pending.length > 0) {
+    const node = pending.pop();
+    if (node) typescript.forEachChild(node, visit);
+  }
+
+  const extracted = source.statements
+    .filter((statement) => included.has(statement))
+    .map((statement) => {
+      let text = content.slice(statement.getStart(source), statement.end);
+      const offset = statement.getStart(source);
+      const inside = replacements
+        .filter((item) => item.start >= offset && item.end <= statement.end)
+        .sort((a, b) => b.start - a.start);
+      for (const item of inside) {
+        text = text.slice(0, item.start - offset) + item.text + text.slice(item.end - offset);
+      }
+      return text;
+    })
+    .concat(aliases.length > 0 ? [`export { ${aliases.join(", ")} };`] : [])
+    .join("\n");
+
+  try {
+    const bundled = await build({
+      stdin: {
+        contents: extracted,
+        loader: /\.[cm]?ts$/.test(file) ? "ts" : "js",
+        resolveDir: path.dirname(file),
+        sourcefile: path.basename(file),
+      },
+      bundle: true,
+      platform: "node",
+      format: "esm",
+      target: "node20",
+      write: false,
+      logLevel: "silent",
+      // Bundled CommonJS dependencies may call require().
+      banner: {
+        js: `import { createRequire as __dzxRequire } from "node:module"; const require = __dzxRequire(${JSON.stringify(file)});`,
+      },
+    });
+    const evaluated = await evaluateInWorker({
+      code: bundled.outputFiles[0]?.text ?? "",
+      names: Array.from(evaluate),
+    });
+    for (const [name, value] of Object.entries(evaluated)) {
+      exports[name] = deserialize(value);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    unresolved.push(`${Array.from(evaluate).join(", ")} could not be evaluated (${message})`);
+    if (evaluate.has("default")) exports.default = stubFunction(true);
+  }
+  return { exports, unresolved };
+}
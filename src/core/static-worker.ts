@@ -0,0 +1,88 @@
+import { parentPort, workerData } from "node:worker_threads";
+import { readToolDefinition } from "../schema/index.js";
+
+/**
+ * A structured-clone-safe copy of an evaluated export.
+ * Functions cannot cross the thread boundary, so handlers become markers.
+ */
+export type StaticValue =
+  | { kind: "value"; value: unknown }
+  | { kind: "object"; entries: Record<string, StaticValue> }
+  | { kind: "array"; items: StaticValue[] }
+  | { kind: "function"; async: boolean }
+  | { kind: "tool"; metadata: Record<string, unknown> };
+
+export type StaticJob = {
+  /** Bundled module holding only the exports to read and the code they depend on. */
+  code: string;
+  names: string[];
+};
+
+export type StaticWorkerMessage =
+  | { type: "result"; exports: Record<string, StaticValue> }
+  | { type: "error"; message: string };
+
+/**
+ * Send a message to the discovery thread.
+ */
+function post(message: StaticWorkerMessage): void {
+  parentPort?.postMessage(message);
+}
+
+/**
+ * Copy an export into a StaticValue. Only plain objects and arrays are walked.
+ */
+function serialize(value: unknown, seen: Set<unknown>): StaticValue {
+  const definition = readToolDefinition(value);
+  if (definition) {
+    return {
+      kind: "tool",
+      metadata: {
+        ...definition,
+        input: definition.input ? definition.input.toJSONSchema() : undefined,
+        output: definition.output ? definition.output.toJSONSchema() : undefined,
+      },
+    };
+  }
+  if (typeof value === "function") {
+    return { kind: "function", async: value.constructor?.name === "AsyncFunction" };
+  }
+  if (typeof value !== "object" || value === null || seen.has(value)) {
+    return { kind: "value", value: typeof value === "object" ? null : value };
+  }
+  // Schema adapters and Zod schemas are sent as JSON Schema.
+  const provider = value as { toJSONSchema?: () => unknown };
+  if (typeof provider.toJSONSchema === "function") {
+    return { kind: "value", value: provider.toJSONSchema() };
+  }
+  seen.add(value);
+  if (Array.isArray(value)) {
+    return { kind: "array", items: value.map((item) => serialize(item, seen)) };
+  }
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return { kind: "value", value: null };
+  }
+  const entries = Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, serialize(item, seen)]),
+  );
+  return { kind: "object", entries };
+}
+
+/**
+ * Evaluate the extracted module and report the requested exports.
+ */
+async function run(job: StaticJob): Promise<void> {
+  const url = `data:text/javascript;base64,${Buffer.from(job.code).toString("base64")}`;
+  const mod = (await import(url)) as Record<string, unknown>;
+  const exports: Record<string, StaticValue> = {};
+  for (const name of job.names) {
+    if (name in mod) exports[name] = serialize(mod[name], new Set());
+  }
+  post({ type: "result", exports });
+}
+
+run(workerData as StaticJob).catch((err: unknown) => {
+  const message = err instanceof Error ? err.message : String(err);
+  post({ type: "error", message });
+});
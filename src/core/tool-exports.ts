@@ -0,0 +1,14 @@
+const TOOLS_ARRAY_ENTRY = /^tools\.(\d+)$/;
+
+/**
+ * Find the handler a tool export reference points at: `default` (or none),
+ * a named export, or `tools.<index>` for an entry of a `tools` array.
+ */
+export function resolveToolExport(mod: Record<string, unknown>, ref?: string): unknown {
+  if (!ref || ref === "default") return mod.default;
+  const entry = ref.match(TOOLS_ARRAY_ENTRY);
+  if (entry) {
+    return Array.isArray(mod.tools) ? mod.tools[Number(entry[1])] : undefined;
+  }
+  return mod[ref];
+}
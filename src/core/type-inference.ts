@@ -0,0 +1,225 @@
+import { createRequire } from "node:module";
+import path from "node:path";
+import type ts from "typescript";
+
+type JsonSchema = Record<string, unknown>;
+
+export type SignatureSchemas = {
+  inputSchema?: JsonSchema;
+  outputSchema?: JsonSchema;
+};
+
+/**
+ * Infers the schemas of a file's default export; files outside the program yield `{}`.
+ */
+export type SignatureInference = (file: string) => SignatureSchemas;
+
+/** Files the type checker reads signatures from; JavaScript has none beyond JSDoc. */
+export const TYPED_FILE_EXTENSIONS = new Set([".ts", ".mts", ".cts"]);
+
+const FALLBACK_COMPILER_OPTIONS = {
+  target: "ES2022",
+  module: "ESNext",
+  moduleResolution: "Bundler",
+  strict: true,
+  skipLibCheck: true,
+  allowImportingTsExtensions: true,
+};
+
+/**
+ * Load TypeScript from the project, then from wherever dzx itself resolves it
+ * (it is an optional peer dependency).
+ * Returns null when neither has it installed.
+ */
+export function loadTypeScript(cwd: string): typeof ts | null {
+  for (const base of [path.join(cwd, "package.json"), import.meta.url]) {
+    try {
+      return createRequire(base)("typescript") as typeof ts;
+    } catch {
+      // try the next location
+    }
+  }
+  return null;
+}
+
+/**
+ * Read compiler options from the project's tsconfig.json, or use defaults.
+ */
+function readCompilerOptions(typescript: typeof ts, cwd: string): ts.CompilerOptions {
+  const configFile = typescript.findConfigFile(cwd, typescript.sys.fileExists);
+  if (configFile) {
+    const { config, error } = typescript.readConfigFile(configFile, typescript.sys.readFile);
+    if (!error) {
+      const parsed = typescript.parseJsonConfigFileContent(
+        config,
+        typescript.sys,
+        path.dirname(configFile),
+      );
+      return { ...parsed.options, noEmit: true };
+    }
+  }
+  return {
+    ...typescript.convertCompilerOptionsFromJson(FALLBACK_COMPILER_OPTIONS, cwd).options,
+    noEmit: true,
+  };
+}
+
+/**
+ * Build an inference backend on the TypeScript compiler API for a set of files.
+ * All files share one program, so imported types are resolved once.
+ * Returns null when TypeScript is not installed.
+ */
+export function createSignatureInference(cwd: string, files: string[]): SignatureInference | null {
+  const typescript = loadTypeScript(cwd);
+  if (!typescript) return null;
+  const program = typescript.createProgram(files, readCompilerOptions(typescript, cwd));
+  const checker = program.getTypeChecker();
+
+  /**
+   * Check whether a type is an instantiated generic such as `Set<string>`.
+   */
+  const isTypeReference = (type: ts.Type): type is ts.TypeReference =>
+    Boolean(type.flags & typescript.TypeFlags.Object) &&
+    Boolean((type as ts.ObjectType).objectFlags & typescript.ObjectFlags.Reference);
+
+  /**
+   * Convert a checker type into JSON Schema, following the conventions of `parseTypeString`.
+   */
+  const toSchema = (type: ts.Type, seen: Set<ts.Type>): JsonSchema => {
+    const { TypeFlags } = typescript;
+    if (type.flags & (TypeFlags.Any | TypeFlags.Unknown)) return {};
+    if (type.isStringLiteral() || type.isNumberLiteral()) return { const: type.value };
+    if (type.flags & TypeFlags.BooleanLiteral) {
+      return { const: checker.typeToString(type) === "true" };
+    }
+    if (type.flags & TypeFlags.BigIntLike) return { type: "integer" };
+    if (type.flags & TypeFlags.StringLike) return { type: "string" };
+    if (type.flags & TypeFlags.NumberLike) return { type: "number" };
+    if (type.flags & TypeFlags.BooleanLike) return { type: "boolean" };
+    if (type.flags & (TypeFlags.Void | TypeFlags.Undefined | TypeFlags.Null)) {
+      return { type: "null" };
+    }
+    if (type.flags & TypeFlags.NonPrimitive) return { type: "object" };
+    if (type.isUnion()) return unionToSchema(type, seen);
+    if (checker.isTupleType(type)) {
+      const tuple = checker.getTypeArguments(type as ts.TypeReference);
+      const items = tuple.map((item) => toSchema(item, seen));
+      return { type: "array", items, minItems: items.length, maxItems: items.length };
+    }
+    if (checker.isArrayType(type)) {
+      const [item] = checker.getTypeArguments(type as ts.TypeReference);
+      return { type: "array", items: item ? toSchema(item, seen) : {} };
+    }
+    const symbolName = type.getSymbol()?.getName();
+    if (symbolName === "Date") return { type: "string", format: "date-time" };
+    if ((symbolName === "Set" || symbolName === "Map") && isTypeReference(type)) {
+      const typeArguments = checker.getTypeArguments(type);
+      if (symbolName === "Set" && typeArguments.length === 1) {
+        return { type: "array", items: toSchema(typeArguments[0], seen), uniqueItems: true };
+      }
+      if (symbolName === "Map" && typeArguments.length === 2) {
+        return { type: "object", additionalProperties: toSchema(typeArguments[1], seen) };
+      }
+    }
+    if (type.getCallSignatures().length > 0 && type.getProperties().length === 0) return {};
+    if (type.isIntersection() && !type.types.every((part) => part.flags & TypeFlags.Object)) {
+      return { allOf: type.types.map((part) => toSchema(part, seen)) };
+    }
+    return objectToSchema(type, seen);
+  };
+
+  /**
+   * Convert a union. Literal unions (including enums) become `enum`; `undefined`
+   * members are dropped because optional properties are tracked by `required`.
+   */
+  const unionToSchema = (type: ts.UnionType, seen: Set<ts.Type>): JsonSchema => {
+    const { TypeFlags } = typescript;
+    let members = type.types.filter((member) => !(member.flags & TypeFlags.Undefined));
+    const booleans = members.filter((member) => member.flags & TypeFlags.BooleanLiteral);
+    if (booleans.length === 2) {
+      members = members.filter((member) => !(member.flags & TypeFlags.BooleanLiteral));
+      members.push(checker.getBooleanType());
+    }
+    if (members.length === 1) return toSchema(members[0], seen);
+    if (members.every((member) => member.isStringLiteral() || member.isNumberLiteral())) {
+      return {
+        enum: members.map(
+          (member) => (member as ts.StringLiteralType | ts.NumberLiteralType).value,
+        ),
+      };
+    }
+    return { anyOf: members.map((member) => toSchema(member, seen)) };
+  };
+
+  /**
+   * Convert an object type, interface, or intersection of objects.
+   * Property doc comments become `description`; recursive types stop at `{}`.
+   */
+  const objectToSchema = (type: ts.Type, seen: Set<ts.Type>): JsonSchema => {
+    if (seen.has(type)) return {};
+    seen.add(type);
+    const properties: Record<string, unknown> = {};
+    const required: string[] = [];
+    for (const property of checker.getPropertiesOfType(type)) {
+      const propertyType = checker.getTypeOfSymbol(property);
+      if (propertyType.getCallSignatures().length > 0) continue;
+      const schema = toSchema(propertyType, seen);
+      const description = typescript
+        .displayPartsToString(property.getDocumentationComment(checker))
+        .trim();
+      properties[property.getName()] = description ? { ...schema, description } : schema;
+      if (!(property.flags & typescript.SymbolFlags.Optional)) required.push(property.getName());
+    }
+    const index = checker.getIndexInfoOfType(type, typescript.IndexKind.String);
+    seen.delete(type);
+    if (index && Object.keys(properties).length === 0) {
+      return { type: "object", additionalProperties: toSchema(index.type, seen) };
+    }
+    return {
+      type: "object",
+      properties,
+      ...(required.length ? { required } : {}),
+      additionalProperties: index ? toSchema(index.type, seen) : false,
+    };
+  };
+
+  /**
+   * Convert a type unless it carries no information (`any` or `unknown`).
+   */
+  const toInferredSchema = (type: ts.Type): JsonSchema | undefined => {
+    if (type.flags & (typescript.TypeFlags.Any | typescript.TypeFlags.Unknown)) return undefined;
+    return toSchema(type, new Set());
+  };
+
+  return (file: string) => {
+    const sourceFile = program.getSourceFile(file);
+    if (!sourceFile) return {};
+    const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+    if (!moduleSymbol) return {};
+    let exported = checker
+      .getExportsOfModule(moduleSymbol)
+      .find((symbol) => symbol.getName() === "default");
+    if (!exported) return {};
+    if (exported.flags & typescript.SymbolFlags.Alias) {
+      exported = checker.getAliasedSymbol(exported);
+    }
+    const [signature] = checker.getTypeOfSymbolAtLocation(exported, sourceFile).getCallSignatures();
+    if (!signature) return {};
+
+    const [parameter] = signature.getParameters();
+    const parameterType = parameter
+      ? checker.getNonNullableType(checker.getTypeOfSymbolAtLocation(parameter, sourceFile))
+      : undefined;
+    // Output comes only from an explicit return annotation, and only when it is
+    // an object: structuredContent must be one, so void and primitives get none.
+    const declaration = signature.getDeclaration() as ts.SignatureDeclaration | undefined;
+    const returnType = signature.getReturnType();
+    const outputSchema = declaration?.type
+      ? toInferredSchema(checker.getAwaitedType(returnType) ?? returnType)
+      : undefined;
+    return {
+      inputSchema: parameterType ? toInferredSchema(parameterType) : undefined,
+      outputSchema: outputSchema?.type === "object" ? outputSchema : undefined,
+    };
+  };
+}
@@ -0,0 +1,84 @@
+import fs from "node:fs";
+
+export type WatcherOptions = {
+  onWarn?: (message: string) => void;
+  /** Only report changes to paths this returns true for. */
+  filter?: (filePath: string) => boolean;
+};
+
+/**
+ * Check if a value looks like a NodeJS error object.
+ */
+function isErrnoException(value: unknown): value is NodeJS.ErrnoException {
+  return typeof value === "object" && value !== null && "code" in value;
+}
+
+/**
+ * Skip dependency and VCS directories (chokidar 4+ no longer accepts globs).
+ */
+function isIgnoredPath(filePath: string): boolean {
+  return /(^|[\\/])(node_modules|\.git)([\\/]|$)/.test(filePath);
+}
+
+/**
+ * Create a file watcher with polling fallback.
+ */
+export async function createWatcher(
+  paths: string[],
+  onChange: (filename?: string) => void,
+  options: WatcherOptions = {},
+): Promise<() => void> {
+  const watchTargets = paths.filter((candidate) => fs.existsSync(candidate));
+  if (watchTargets.length === 0) return () => {};
+
+  const { watch } = await import("chokidar");
+  let timeout: NodeJS.Timeout | null = null;
+  let watcher = watch(watchTargets, {
+    ignoreInitial: true,
+    persistent: true,
+    awaitWriteFinish: { stabilityThreshold: 150, pollInterval: 50 },
+    usePolling: process.env.DZX_POLLING === "1",
+    ignored: isIgnoredPath,
+  });
+
+  /**
+   * Debounce file change events before notifying.
+   */
+  const handleChange = (filePath?: string) => {
+    if (filePath && options.filter && !options.filter(filePath)) return;
+    if (timeout) clearTimeout(timeout);
+    timeout = setTimeout(() => onChange(filePath), 150);
+  };
+
+  watcher.on("add", handleChange);
+  watcher.on("change", handleChange);
+  watcher.on("unlink", handleChange);
+  watcher.on("error", (err: unknown) => {
+    if (isErrnoException(err) && (err.code === "EMFILE" || err.code === "ENOSPC")) {
+      // fallback to polling when file descriptors are exhausted
+      watcher.close().catch(() => {});
+      watcher = watch(watchTargets, {
+        ignoreInitial: true,
+        persistent: true,
+        awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 100 },
+        usePolling: true,
+        ignored: isIgnoredPath,
+      });
+      const message = "file watching degraded to polling";
+      if (options.onWarn) {
+        options.onWarn(message);
+      } else {
+        // eslint-disable-next-line no-console
+        console.error(message);
+      }
+      watcher.on("add", handleChange);
+      watcher.on("change", handleChange);
+      watcher.on("unlink", handleChange);
+    }
+  });
+
+  return () => {
+    if (timeout) clearTimeout(timeout);
+    watcher.close().catch(() => {});
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Maximum number of values in one completion/complete result (MCP spec).
+ */
+export const COMPLETION_LIMIT = 100;
+
+export type Completion = { values: string[]; total?: number; hasMore: boolean };
+
+/**
+ * Completion source exported by a prompt or resource template module as `complete`:
+ * a function of (name, value, context, arguments), or a map from argument name
+ * to a value list or a function of (value, context, arguments).
+ */
+export type CompleteExport =
+  | ((
+      name: string,
+      value: string,
+      context: unknown,
+      args: Record<string, string>,
+    ) => unknown | Promise<unknown>)
+  | Record<
+      string,
+      | string[]
+      | ((
+          value: string,
+          context: unknown,
+          args: Record<string, string>,
+        ) => unknown | Promise<unknown>)
+    >;
+
+/**
+ * Keep the string values from a completion source result.
+ */
+function readValues(output: unknown): string[] {
+  if (!Array.isArray(output)) return [];
+  return output.flatMap((value) =>
+    typeof value === "string" || typeof value === "number" ? [String(value)] : [],
+  );
+}
+
+/**
+ * Keep values that start with what the user typed (case-insensitive).
+ */
+export function filterByPrefix(values: string[], prefix: string): string[] {
+  const needle = prefix.toLowerCase();
+  return values.filter((value) => value.toLowerCase().startsWith(needle));
+}
+
+/**
+ * Cap values at the spec limit and report how many were left out.
+ */
+export function toCompletion(values: string[]): Completion {
+  const unique = Array.from(new Set(values));
+  if (unique.length === 0) return { values: [], hasMore: false };
+  return {
+    values: unique.slice(0, COMPLETION_LIMIT),
+    total: unique.length,
+    hasMore: unique.length > COMPLETION_LIMIT,
+  };
+}
+
+/**
+ * Run a module's `complete` export for one argument.
+ * Static lists are prefix-filtered; functions receive the typed value and
+ * are trusted to do their own matching. Returns null when nothing is exported
+ * for the argument.
+ */
+export async function runCompleteExport(
+  complete: unknown,
+  name: string,
+  value: string,
+  context: unknown,
+  args: Record<string, string>,
+): Promise<string[] | null> {
+  if (typeof complete === "function") {
+    return readValues(await complete(name, value, context, args));
+  }
+  if (typeof complete !== "object" || complete === null) return null;
+  const entry = (complete as Record<string, unknown>)[name];
+  if (Array.isArray(entry)) return filterByPrefix(readValues(entry), value);
+  if (typeof entry === "function") return readValues(await entry(value, context, args));
+  return null;
+}
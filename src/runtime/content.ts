@@ -0,0 +1,182 @@
+/**
+ * Marks values built by the content helpers so the runtime can tell them apart
+ * from plain tool output. A string key (not a symbol) survives worker cloning.
+ */
+const CONTENT_MARKER = "__dzxContent";
+
+type Annotations = {
+  audience?: Array<"user" | "assistant">;
+  priority?: number;
+};
+
+export type TextContent = { type: "text"; text: string; annotations?: Annotations };
+
+export type ImageContent = {
+  type: "image";
+  data: string;
+  mimeType: string;
+  annotations?: Annotations;
+};
+
+export type AudioContent = {
+  type: "audio";
+  data: string;
+  mimeType: string;
+  annotations?: Annotations;
+};
+
+export type ResourceLinkContent = {
+  type: "resource_link";
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  annotations?: Annotations;
+};
+
+export type EmbeddedResourceContent = {
+  type: "resource";
+  resource: { uri: string; mimeType?: string; text?: string; blob?: string };
+  annotations?: Annotations;
+};
+
+export type ContentPart =
+  | TextContent
+  | ImageContent
+  | AudioContent
+  | ResourceLinkContent
+  | EmbeddedResourceContent;
+
+/**
+ * A tool result made of content parts, with optional structured output.
+ */
+export type ToolContent = {
+  content: ContentPart[];
+  structuredContent?: unknown;
+};
+
+type BinaryData = string | Uint8Array | ArrayBuffer;
+
+/**
+ * Tag a helper result so the runtime recognizes it.
+ */
+function mark<T extends object>(value: T): T {
+  return { ...value, [CONTENT_MARKER]: true };
+}
+
+/**
+ * Encode binary data as base64; strings are assumed to be base64 already.
+ */
+function toBase64(data: BinaryData): string {
+  if (typeof data === "string") return data;
+  const bytes = data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString("base64");
+}
+
+/**
+ * A text content part.
+ */
+export function text(value: string, annotations?: Annotations): TextContent {
+  return mark({ type: "text" as const, text: value, ...(annotations ? { annotations } : {}) });
+}
+
+/**
+ * An image content part from bytes or a base64 string.
+ */
+export function image(data: BinaryData, mimeType: string, annotations?: Annotations): ImageContent {
+  return mark({
+    type: "image" as const,
+    data: toBase64(data),
+    mimeType,
+    ...(annotations ? { annotations } : {}),
+  });
+}
+
+/**
+ * An audio content part from bytes or a base64 string.
+ */
+export function audio(data: BinaryData, mimeType: string, annotations?: Annotations): AudioContent {
+  return mark({
+    type: "audio" as const,
+    data: toBase64(data),
+    mimeType,
+    ...(annotations ? { annotations } : {}),
+  });
+}
+
+/**
+ * A link to a resource the client can read later with resources/read.
+ */
+export function resourceLink(
+  uri: string,
+  options: Omit<ResourceLinkContent, "type" | "uri" | "name"> & { name?: string } = {},
+): ResourceLinkContent {
+  return mark({ type: "resource_link" as const, uri, ...options, name: options.name ?? uri });
+}
+
+/**
+ * A resource embedded in the result. Strings become `text`; bytes become a base64 `blob`.
+ */
+export function embeddedResource(
+  uri: string,
+  data: string | Uint8Array | ArrayBuffer,
+  mimeType?: string,
+): EmbeddedResourceContent {
+  const body = typeof data === "string" ? { text: data } : { blob: toBase64(data) };
+  return mark({
+    type: "resource" as const,
+    resource: { uri, ...(mimeType ? { mimeType } : {}), ...body },
+  });
+}
+
+/**
+ * Build a tool result from content parts. Pass `structured` to also return
+ * `structuredContent`, which is validated against the tool's output schema.
+ */
+export function content(parts: ContentPart[], structured?: unknown): ToolContent {
+  return mark(
+    structured === undefined
+      ? { content: parts }
+      : { content: parts, structuredContent: structured },
+  );
+}
+
+/**
+ * Check whether a value was built by one of the helpers.
+ */
+function isMarked(value: unknown): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as Record<string, unknown>)[CONTENT_MARKER] === true
+  );
+}
+
+/**
+ * Remove the helper marker from a value.
+ */
+function unmark<T>(value: T): T {
+  if (typeof value !== "object" || value === null) return value;
+  const { [CONTENT_MARKER]: _marker, ...rest } = value as Record<string, unknown>;
+  return rest as T;
+}
+
+/**
+ * Recognize tool output built with the content helpers.
+ * Returns null for any other output, which the runtime serializes as text.
+ */
+export function readToolContent(output: unknown): ToolContent | null {
+  if (Array.isArray(output)) {
+    const marked = output.length > 0 && output.every(isMarked);
+    return marked ? { content: output.map((part) => unmark(part)) } : null;
+  }
+  if (!isMarked(output)) return null;
+  const record = output as Record<string, unknown>;
+  if (Array.isArray(record.content)) {
+    const result: ToolContent = { content: record.content.map((part) => unmark(part)) };
+    if ("structuredContent" in record) result.structuredContent = record.structuredContent;
+    return result;
+  }
+  return { content: [unmark(output as ContentPart)] };
+}
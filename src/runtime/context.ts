@@ -0,0 +1,227 @@
+import type { RuntimeSession, SessionRequestOptions } from "./session.js";
+
+/**
+ * Report progress for the current tool call.
+ */
+export type ProgressReporter = (current: number, total?: number, message?: string) => void;
+
+/**
+ * MCP log levels in increasing severity (RFC 5424 names).
+ */
+export const LOGGING_LEVELS = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+] as const;
+
+export type LoggingLevel = (typeof LOGGING_LEVELS)[number];
+
+/**
+ * Structured logger passed to tool handlers.
+ */
+export type ToolLogger = {
+  debug: (message: string, data?: unknown) => void;
+  info: (message: string, data?: unknown) => void;
+  warn: (message: string, data?: unknown) => void;
+  error: (message: string, data?: unknown) => void;
+};
+
+export type SamplingContent =
+  | { type: "text"; text: string }
+  | { type: "image" | "audio"; data: string; mimeType: string };
+
+export type SamplingMessage = {
+  role: "user" | "assistant";
+  content: SamplingContent;
+};
+
+/**
+ * Parameters for sampling/createMessage (see the MCP sampling spec).
+ */
+export type SamplingRequest = {
+  messages: SamplingMessage[];
+  maxTokens: number;
+  systemPrompt?: string;
+  temperature?: number;
+  stopSequences?: string[];
+  includeContext?: "none" | "thisServer" | "allServers";
+  modelPreferences?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+};
+
+export type SamplingResult = {
+  role: "user" | "assistant";
+  content: SamplingContent;
+  model: string;
+  stopReason?: string;
+};
+
+/**
+ * Parameters for elicitation/create: a prompt and a flat JSON Schema for the reply.
+ */
+export type ElicitRequest = {
+  message: string;
+  requestedSchema: Record<string, unknown>;
+};
+
+export type ElicitResult =
+  | { action: "accept"; content: Record<string, unknown> }
+  | { action: "decline" | "cancel" };
+
+/**
+ * A filesystem root the client exposed (from roots/list).
+ */
+export type Root = {
+  uri: string;
+  name?: string;
+};
+
+/**
+ * Helpers the runtime adds to the context passed to tool handlers.
+ */
+export type ToolContextHelpers = {
+  progress: ProgressReporter;
+  log: ToolLogger;
+  /** Ask the client's model for a completion (requires the sampling capability). */
+  sample: (request: SamplingRequest) => Promise<SamplingResult>;
+  /** Ask the user for input (requires the elicitation capability). */
+  elicit: (request: ElicitRequest) => Promise<ElicitResult>;
+  /** Roots the client exposed; empty when the client does not support roots. */
+  roots: Root[];
+  /** Aborted when the client cancels, disconnects, or the call times out. */
+  signal: AbortSignal;
+};
+
+export type ToolContext<T extends Record<string, unknown> = Record<string, unknown>> = T &
+  ToolContextHelpers;
+
+export type ProgressToken = string | number;
+
+/**
+ * Read `_meta.progressToken` from tools/call params, if present.
+ */
+export function readProgressToken(params: Record<string, unknown>): ProgressToken | undefined {
+  const meta = params._meta;
+  if (typeof meta !== "object" || meta === null) return undefined;
+  const token = (meta as Record<string, unknown>).progressToken;
+  return typeof token === "string" || typeof token === "number" ? token : undefined;
+}
+
+/**
+ * Create a progress reporter that emits notifications/progress for a token.
+ * Without a token or delivery channel the reporter is a no-op.
+ */
+export function createProgressReporter(
+  token: ProgressToken | undefined,
+  send: ((message: unknown) => void) | undefined,
+): { report: ProgressReporter; end: () => void } {
+  let active = token !== undefined && send !== undefined;
+  return {
+    report(current: number, total?: number, message?: string) {
+      if (!active || !send || token === undefined) return;
+      const params: Record<string, unknown> = { progressToken: token, progress: current };
+      if (typeof total === "number") params.total = total;
+      if (typeof message === "string") params.message = message;
+      send({ jsonrpc: "2.0", method: "notifications/progress", params });
+    },
+    end() {
+      // progress sent after the final result would confuse clients
+      active = false;
+    },
+  };
+}
+
+/**
+ * Check whether a value is a known MCP log level.
+ */
+export function isLoggingLevel(value: unknown): value is LoggingLevel {
+  return typeof value === "string" && (LOGGING_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Create a tool logger that emits notifications/message at or above the
+ * client's level and mirrors every entry to `onLocal`.
+ */
+export function createToolLogger(options: {
+  logger: string;
+  send: ((message: unknown) => void) | undefined;
+  level: () => LoggingLevel;
+  onLocal?: (level: LoggingLevel, message: string) => void;
+}): { log: ToolLogger; end: () => void } {
+  let active = options.send !== undefined;
+  /**
+   * Emit one log entry at a level.
+   */
+  const write = (level: LoggingLevel, message: string, data?: unknown) => {
+    options.onLocal?.(level, message);
+    if (!active || !options.send) return;
+    if (LOGGING_LEVELS.indexOf(level) < LOGGING_LEVELS.indexOf(options.level())) return;
+    options.send({
+      jsonrpc: "2.0",
+      method: "notifications/message",
+      params: {
+        level,
+        logger: options.logger,
+        data: data === undefined ? message : { message, data },
+      },
+    });
+  };
+  return {
+    log: {
+      debug: (message, data) => write("debug", message, data),
+      info: (message, data) => write("info", message, data),
+      warn: (message, data) => write("warning", message, data),
+      error: (message, data) => write("error", message, data),
+    },
+    end() {
+      active = false;
+    },
+  };
+}
+
+/**
+ * Keep well-formed entries from a roots/list result.
+ */
+export function parseRoots(result: unknown): Root[] {
+  const list =
+    typeof result === "object" && result !== null ? (result as { roots?: unknown }).roots : null;
+  if (!Array.isArray(list)) return [];
+  return list.flatMap((entry) => {
+    if (typeof entry !== "object" || entry === null) return [];
+    const { uri, name } = entry as { uri?: unknown; name?: unknown };
+    if (typeof uri !== "string") return [];
+    return [typeof name === "string" ? { uri, name } : { uri }];
+  });
+}
+
+/**
+ * Send a capability-gated request to the client behind a session.
+ */
+export function requestClient(
+  session: RuntimeSession | undefined,
+  capability: string,
+  method: string,
+  params: Record<string, unknown>,
+  options: SessionRequestOptions = {},
+): Promise<unknown> {
+  if (!session) return Promise.reject(new Error(`${method} requires a session`));
+  if (!session.clientCapabilities[capability]) {
+    return Promise.reject(new Error(`client does not support ${capability}`));
+  }
+  return session.request(method, params, options);
+}
+
+/**
+ * Merge runtime helpers into the user context for a single tool call.
+ * Non-object contexts (strings, arrays, ...) are wrapped as `{ value }`.
+ */
+export function createToolContext(context: unknown, helpers: ToolContextHelpers): unknown {
+  if (context === undefined || context === null) return { ...helpers };
+  if (typeof context !== "object" || Array.isArray(context)) return { value: context, ...helpers };
+  return { ...(context as Record<string, unknown>), ...helpers };
+}
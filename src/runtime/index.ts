@@ -4,30 +4,101 @@ import os from "node:os";
 import path from "node:path";
 import { pathToFileURL } from "node:url";
 import Ajv, { type Options as AjvOptions } from "ajv";
+import addFormats from "ajv-formats";
 import { type ComponentChildren, h } from "preact";
 import { renderToString } from "preact-render-to-string";
 import { colorize, symbols } from "../cli/format.js";
 import {
   type DiscoveredPrompt,
   type DiscoveredResource,
+  type DiscoveredResourceTemplate,
   type DiscoveredTool,
   discoverPrompts,
   discoverResources,
+  discoverResourceTemplates,
   discoverTools,
+  type ToolAnnotations,
 } from "../core/discovery.js";
 import { loadEnvFiles } from "../core/env.js";
 import { parseFrontmatter } from "../core/frontmatter.js";
 import { loadManifest, normalizeManifest } from "../core/manifest.js";
+import { detectMimeType, isTextMimeType } from "../core/mime.js";
+import { resolveToolExport } from "../core/tool-exports.js";
+import { createWatcher } from "../core/watch.js";
 import { getDzxVersion } from "../shared/version.js";
+import { type Completion, filterByPrefix, runCompleteExport, toCompletion } from "./completion.js";
+import { readToolContent } from "./content.js";
+import {
+  createProgressReporter,
+  createToolContext,
+  createToolLogger,
+  type ElicitRequest,
+  type ElicitResult,
+  isLoggingLevel,
+  LOGGING_LEVELS,
+  type LoggingLevel,
+  parseRoots,
+  readProgressToken,
+  requestClient,
+  type SamplingRequest,
+  type SamplingResult,
+  type ToolContextHelpers,
+} from "./context.js";
+import { resolveIsolationMode, runToolInWorker } from "./isolation.js";
+import {
+  normalizePromptOutput,
+  type PromptMessage,
+  promptArguments,
+  renderPromptMessages,
+  validatePromptArguments,
+} from "./prompts.js";
+import { createSession, type RuntimeSession } from "./session.js";
+import { createStdioTransport, type StdioStreams } from "./stdio.js";
+
+export type { CompleteExport, Completion } from "./completion.js";
+export type {
+  AudioContent,
+  ContentPart,
+  EmbeddedResourceContent,
+  ImageContent,
+  ResourceLinkContent,
+  TextContent,
+  ToolContent,
+} from "./content.js";
+export { audio, content, embeddedResource, image, resourceLink, text } from "./content.js";
+export type {
+  ElicitRequest,
+  ElicitResult,
+  LoggingLevel,
+  ProgressReporter,
+  Root,
+  SamplingMessage,
+  SamplingRequest,
+  SamplingResult,
+  ToolContext,
+  ToolContextHelpers,
+  ToolLogger,
+} from "./context.js";
+export type { RuntimeSession } from "./session.js";
 
 const DEFAULT_PROTOCOL_VERSION = "2025-11-25";
 const DEFAULT_TOOL_TIMEOUT_MS = 30_000;
+const DEFAULT_LOGGING_LEVEL: LoggingLevel = "info";
+const SESSION_HEADER = "Mcp-Session-Id";
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60_000;
+const SSE_KEEPALIVE_MS = 15_000;
 
 type AjvInstance = import("ajv").default;
 type AjvConstructor = new (options?: AjvOptions) => AjvInstance;
 const AjvCtor =
   (Ajv as unknown as { default?: AjvConstructor }).default ?? (Ajv as unknown as AjvConstructor);
+type AddFormats = (instance: AjvInstance) => AjvInstance;
+const addFormatsFn =
+  (addFormats as unknown as { default?: AddFormats }).default ??
+  (addFormats as unknown as AddFormats);
 const ajv = new AjvCtor({ allErrors: true, strict: true, allowUnionTypes: true });
+// `format` (email, uri, date, date-time, ...) appears in elicitation and inferred schemas.
+addFormatsFn(ajv);
 const schemaCache = new Map<string, ReturnType<typeof ajv.compile>>();
 
 type JSONRPCRequest = {
@@ -44,6 +115,23 @@ type JSONRPCResponse = {
   error?: { code: number; message: string; data?: unknown };
 };
 
+/**
+ * The response channel of a streaming request: related messages and disconnects.
+ */
+type ResponseStream = {
+  emit: (message: unknown) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * The request a resource read or prompt render serves, for context helpers.
+ */
+type ClientRequest = {
+  params: Record<string, unknown>;
+  session?: RuntimeSession;
+  stream?: ResponseStream;
+};
+
 type ToolMetrics = {
   calls: number;
   totalMs: number;
@@ -80,11 +168,24 @@ export type RuntimeOptions = {
   autoStart?: boolean;
 };
 
+export type RegistryChanges = {
+  tools: boolean;
+  resources: boolean;
+  prompts: boolean;
+};
+
 export type RuntimeServer = {
   manifest: ReturnType<typeof normalizeManifest>;
   init: () => Promise<void>;
+  reload: () => Promise<RegistryChanges>;
   start: () => Promise<void>;
-  processRequest: (raw: string, context?: unknown) => Promise<unknown | null>;
+  startStdio: (streams?: StdioStreams) => Promise<void>;
+  close: () => Promise<void>;
+  processRequest: (
+    raw: string,
+    context?: unknown,
+    session?: RuntimeSession,
+  ) => Promise<unknown | null>;
 };
 
 type JsonSchemaProvider = {
@@ -450,7 +551,7 @@ function asRecord(value: unknown): Record<string, unknown> | null {
  */
 async function loadContextModule(
   cwd: string,
-): Promise<((req: http.IncomingMessage) => Promise<unknown> | unknown) | null> {
+): Promise<((req?: http.IncomingMessage) => Promise<unknown> | unknown) | null> {
   const candidates = [
     path.join(cwd, "src", "context.ts"),
     path.join(cwd, "src", "context.js"),
@@ -517,6 +618,7 @@ export function formatSseMessage(payload: unknown): string {
  * Write a single SSE message with JSON-RPC payload.
  */
 function writeSSE(res: http.ServerResponse, payload: unknown): void {
+  if (res.destroyed) return;
   if (!res.headersSent) {
     res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
     res.setHeader("Cache-Control", "no-cache");
@@ -531,6 +633,44 @@ function writeSSE(res: http.ServerResponse, payload: unknown): void {
   }
 }
 
+/**
+ * Key in-flight requests by session so ids from different clients never collide.
+ */
+function requestKey(session: RuntimeSession, id: string | number): string {
+  return `${session.id}:${typeof id}:${id}`;
+}
+
+/**
+ * Read the Streamable HTTP session id header, if present.
+ */
+function readSessionId(req: http.IncomingMessage): string | undefined {
+  const value = req.headers[SESSION_HEADER.toLowerCase()];
+  const id = Array.isArray(value) ? value[0] : value;
+  return id?.trim() || undefined;
+}
+
+/**
+ * Check whether a request body carries an initialize request.
+ */
+function isInitializeBody(raw: string): boolean {
+  for (const segment of splitJsonRpcRequests(raw)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(segment);
+    } catch {
+      continue;
+    }
+    const messages = Array.isArray(parsed) ? parsed : [parsed];
+    for (const message of messages) {
+      const methodValue = asRecord(message)?.method;
+      if (typeof methodValue === "string" && normalizeMethod(methodValue) === "initialize") {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
 /**
  * Split a raw request body into individual JSON-RPC payloads.
  */
@@ -603,6 +743,57 @@ function methodNotFound(
   };
 }
 
+/**
+ * Encode a list position as an opaque cursor.
+ */
+function encodeCursor(after: string): string {
+  return Buffer.from(JSON.stringify({ after }), "utf8").toString("base64url");
+}
+
+/**
+ * Decode a cursor produced by encodeCursor, or null if it is malformed.
+ */
+function decodeCursor(cursor: string): string | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as unknown;
+    const after = asRecord(decoded)?.after;
+    return typeof after === "string" ? after : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Slice one page from a list. Paged lists are served in key order and cursors
+ * name the last key served, so pages stay stable when items are added or
+ * removed between requests.
+ */
+function paginate<T>(
+  items: T[],
+  keyOf: (item: T) => string,
+  params: Record<string, unknown>,
+  pageSize?: number,
+): { page: T[]; nextCursor?: string } | null {
+  if (params.cursor === undefined && !pageSize) return { page: items };
+  if (params.cursor !== undefined && typeof params.cursor !== "string") return null;
+  const after = params.cursor === undefined ? null : decodeCursor(params.cursor);
+  if (params.cursor !== undefined && after === null) return null;
+  const ordered = items
+    .map((item) => ({ item, key: keyOf(item) }))
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  let start = 0;
+  if (after !== null) {
+    start = ordered.findIndex((entry) => entry.key > after);
+    if (start < 0) start = ordered.length;
+  }
+  const end = pageSize ? start + pageSize : ordered.length;
+  const page = ordered.slice(start, end);
+  const last = page[page.length - 1];
+  return end < ordered.length && last !== undefined
+    ? { page: page.map((entry) => entry.item), nextCursor: encodeCursor(last.key) }
+    : { page: page.map((entry) => entry.item) };
+}
+
 /**
  * Normalize tool metadata for JSON-RPC responses.
  */
@@ -612,6 +803,7 @@ function normalizeToolList(tools: DiscoveredTool[]): Array<{
   description: string;
   inputSchema: unknown;
   outputSchema?: unknown;
+  annotations?: ToolAnnotations;
 }> {
   return tools.map((tool) => {
     const inputSchema = hasToJSONSchema(tool.inputSchema)
@@ -624,9 +816,10 @@ function normalizeToolList(tools: DiscoveredTool[]): Array<{
 
     const normalized = {
       name: tool.name,
-      title: tool.name,
+      title: tool.title ?? tool.annotations?.title ?? tool.name,
       description: tool.description ?? "",
       inputSchema,
+      ...(tool.annotations ? { annotations: tool.annotations } : {}),
     };
 
     if (tool.outputSchemaSource && tool.outputSchemaSource !== "default") {
@@ -644,6 +837,52 @@ function resourceUri(name: string): string {
   return `resource://${name}`;
 }
 
+/**
+ * Find the template that matches a URI and extract its variables.
+ * Templates with fewer variables win, so `users/me` beats `users/{id}`.
+ */
+function matchResourceTemplate(
+  templates: DiscoveredResourceTemplate[],
+  uri: string,
+): { template: DiscoveredResourceTemplate; variables: Record<string, string> } | null {
+  const ordered = [...templates].sort((a, b) => a.variables.length - b.variables.length);
+  for (const template of ordered) {
+    const pattern = template.uriTemplate
+      .split(/\{[^}]+\}/)
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("([^/]+)");
+    const match = uri.match(new RegExp(`^${pattern}$`));
+    if (!match) continue;
+    try {
+      const variables = Object.fromEntries(
+        template.variables.map((name, index) => [name, decodeURIComponent(match[index + 1])]),
+      );
+      return { template, variables };
+    } catch {
+      // malformed percent-encoding never matches
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert a resource loader result into a resources/read contents entry.
+ */
+function toResourceContents(
+  uri: string,
+  mimeType: string | undefined,
+  output: unknown,
+): Record<string, unknown> {
+  if (typeof output === "string") {
+    return { uri, mimeType: mimeType ?? "text/plain", text: output };
+  }
+  const record = asRecord(output);
+  if (record && (typeof record.text === "string" || typeof record.blob === "string")) {
+    return { uri, ...(mimeType ? { mimeType } : {}), ...record };
+  }
+  return { uri, mimeType: mimeType ?? "application/json", text: JSON.stringify(output ?? null) };
+}
+
 /**
  * Format a tool file location label.
  */
@@ -666,20 +905,6 @@ function normalizeMethod(method?: string): string | undefined {
   return method;
 }
 
-/**
- * Convert prompt inputs into MCP arguments metadata.
- */
-function promptArguments(
-  inputs?: Array<{ name: string; type: string; description?: string }>,
-): Array<{ name: string; description?: string; required: boolean }> {
-  if (!inputs || inputs.length === 0) return [];
-  return inputs.map((input) => ({
-    name: input.name,
-    description: input.description,
-    required: false,
-  }));
-}
-
 /**
  * Dynamically import a tool module by file path.
  */
@@ -778,20 +1003,22 @@ export function validateSchema(schema: unknown, payload: unknown): { ok: boolean
 }
 
 /**
- * Wrap a promise with a timeout.
+ * Wrap a promise with a timeout, aborting `controller` when it fires.
  */
 export async function withTimeout<T>(
   promise: Promise<T>,
   timeoutMs: number,
   label: string,
+  controller?: AbortController,
 ): Promise<T> {
   if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) return promise;
   let timeoutId: NodeJS.Timeout | null = null;
   const timeout = new Promise<never>((_, reject) => {
-    timeoutId = setTimeout(
-      () => reject(new Error(`${label} timed out after ${timeoutMs}ms`)),
-      timeoutMs,
-    );
+    timeoutId = setTimeout(() => {
+      const error = new Error(`${label} timed out after ${timeoutMs}ms`);
+      controller?.abort(error);
+      reject(error);
+    }, timeoutMs);
   });
   try {
     return await Promise.race([promise, timeout]);
@@ -800,6 +1027,21 @@ export async function withTimeout<T>(
   }
 }
 
+/**
+ * Reject as soon as a signal aborts, even if the promise ignores it.
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  let onAbort: (() => void) | null = null;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+  return Promise.race([promise, aborted]).finally(() => {
+    if (onAbort) signal.removeEventListener("abort", onAbort);
+  });
+}
+
 /**
  * Render the local dev dashboard HTML page.
  */
@@ -811,8 +1053,9 @@ function renderDashboard(options: {
   resources: DiscoveredResource[];
   prompts: DiscoveredPrompt[];
   metrics: DevMetrics;
+  sessions: RuntimeSession[];
 }): string {
-  const { name, version, port, tools, resources, prompts, metrics } = options;
+  const { name, version, port, tools, resources, prompts, metrics, sessions } = options;
   const uptime = formatUptime(Date.now() - metrics.startedAt);
   const endpointEntries = Array.from(metrics.requests.byEndpoint.entries()).sort((a, b) =>
     a[0].localeCompare(b[0]),
@@ -978,6 +1221,24 @@ function renderDashboard(options: {
             "prompts-list",
           ),
         }),
+        h(Section, {
+          title: "Roots",
+          children: renderKeyValueList(
+            sessions.flatMap((session) =>
+              session.roots.map((root) => ({
+                key: `${session.id}:${root.uri}`,
+                label: root.name ?? root.uri,
+                value: h("span", { class: "mono" }, [
+                  root.uri,
+                  " • ",
+                  String(session.clientInfo?.name ?? "client"),
+                ]),
+              })),
+            ),
+            "No client roots",
+            "roots-list",
+          ),
+        }),
         h(Section, {
           title: "Endpoints",
           children: renderKeyValueList(
@@ -1155,6 +1416,7 @@ function resolveLogLevel(): DevLogLevel {
 
 /**
  * Log dev output respecting log level and quiet mode.
+ * Writes to stderr so stdout stays reserved for the stdio transport.
  */
 function logDev(message: string, level: "info" | "verbose" | "error" = "info"): void {
   if (process.env.DZX_DEV !== "1") return;
@@ -1162,7 +1424,7 @@ function logDev(message: string, level: "info" | "verbose" | "error" = "info"):
   if (logLevel === "quiet") return;
   if (level === "verbose" && logLevel !== "verbose") return;
   // eslint-disable-next-line no-console
-  console.log(message);
+  console.error(message);
 }
 
 /**
@@ -1174,19 +1436,448 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
   const normalized = normalizeManifest(manifest);
   const configuredMethods = normalized.mcp?.methods;
   const resourcesTemplatesListEnabled = configuredMethods?.resourcesTemplatesList === true;
+  const resourcesSubscribeEnabled = configuredMethods?.resourcesSubscribe === true;
+  const pageSize = normalized.mcp?.pageSize;
   const completionCompleteEnabled = configuredMethods?.completionComplete === true;
   const notificationsCompleteEnabled =
     configuredMethods?.notificationsComplete ?? completionCompleteEnabled;
   let tools: DiscoveredTool[] = [];
   let resources: DiscoveredResource[] = [];
+  let resourceTemplates: DiscoveredResourceTemplate[] = [];
   let prompts: DiscoveredPrompt[] = [];
   const metrics = createMetrics();
   let signalHandlersAttached = false;
   let toolTimeoutMs = DEFAULT_TOOL_TIMEOUT_MS;
-  let contextLoader: ((req: http.IncomingMessage) => Promise<unknown> | unknown) | null = null;
+  let contextLoader: ((req?: http.IncomingMessage) => Promise<unknown> | unknown) | null = null;
+
+  const sessions = new Map<string, RuntimeSession>();
+  let sessionSweep: NodeJS.Timeout | null = null;
+  let httpServer: http.Server | null = null;
+  const toolsDir = normalized.toolsDir ?? "tools";
+  const resourcesDir = normalized.resourcesDir ?? "resources";
+  const promptsDir = normalized.promptsDir ?? "prompts";
+  let closeWatcher: (() => void) | null = null;
+  let reloadQueue: Promise<unknown> = Promise.resolve();
+  const inFlight = new Map<string, (reason: string) => void>();
+  // logging/setLevel without a session applies to all sessionless requests
+  let sessionlessLogLevel: LoggingLevel = DEFAULT_LOGGING_LEVEL;
+  const subscriptions = new Map<string, Set<RuntimeSession>>();
+  const subscriptionWatchers = new Map<string, Promise<() => void>>();
+  // Removes the close listener each subscription registered, keyed by URI.
+  const subscriptionCleanups = new WeakMap<RuntimeSession, Map<string, () => void>>();
 
   let initialized = false;
 
+  /**
+   * Run discovery for tools, resources, and prompts.
+   */
+  const discover = async (cacheBust: boolean) => {
+    /**
+     * Emit a formatted warning during discovery.
+     */
+    const logWarn = (message: string) => {
+      logDev(`${colorize.yellow("warn")} ${colorize.gray(message)}`, "info");
+    };
+    return {
+      tools: await discoverTools(cwd, toolsDir, { onWarn: logWarn, cacheBust }),
+      resources: await discoverResources(cwd, resourcesDir, { onWarn: logWarn, cacheBust }),
+      resourceTemplates: await discoverResourceTemplates(cwd, resourcesDir, {
+        onWarn: logWarn,
+        cacheBust,
+      }),
+      prompts: await discoverPrompts(cwd, promptsDir, { onWarn: logWarn, cacheBust }),
+    };
+  };
+
+  /**
+   * Send a notification to every connected session.
+   */
+  const notifySessions = (method: string, params?: Record<string, unknown>) => {
+    const message = params ? { jsonrpc: "2.0", method, params } : { jsonrpc: "2.0", method };
+    for (const session of sessions.values()) {
+      session.send(message);
+    }
+  };
+
+  /**
+   * Re-run discovery in-process and announce registries that changed.
+   */
+  const reloadRegistries = async (): Promise<RegistryChanges> => {
+    const next = await discover(true);
+    const changes: RegistryChanges = {
+      tools:
+        JSON.stringify(normalizeToolList(tools)) !== JSON.stringify(normalizeToolList(next.tools)),
+      resources:
+        JSON.stringify([resources, resourceTemplates]) !==
+        JSON.stringify([next.resources, next.resourceTemplates]),
+      prompts: JSON.stringify(prompts) !== JSON.stringify(next.prompts),
+    };
+    tools = next.tools;
+    resources = next.resources;
+    resourceTemplates = next.resourceTemplates;
+    prompts = next.prompts;
+    for (const tool of tools) {
+      ensureToolMetrics(metrics, tool.name);
+    }
+    if (changes.tools) notifySessions("notifications/tools/list_changed");
+    if (changes.resources) notifySessions("notifications/resources/list_changed");
+    if (changes.prompts) notifySessions("notifications/prompts/list_changed");
+    const changed = Object.entries(changes)
+      .filter(([, value]) => value)
+      .map(([key]) => key);
+    if (changed.length > 0) {
+      logDev(`${colorize.cyan("reload")} ${colorize.gray(changed.join(", "))}`, "info");
+    }
+    return changes;
+  };
+
+  /**
+   * Queue a reload so overlapping file events never interleave discovery.
+   */
+  const reload = () => {
+    const run = reloadQueue.then(() => reloadRegistries());
+    reloadQueue = run.catch(() => {});
+    return run;
+  };
+
+  /**
+   * Watch discovery directories and hot-reload them in dev.
+   */
+  const startWatching = async () => {
+    if (closeWatcher) return;
+    if (process.env.DZX_DEV !== "1" || process.env.DZX_WATCH === "0") return;
+    const watchPaths = [toolsDir, resourcesDir, promptsDir].map((dir) => path.resolve(cwd, dir));
+    closeWatcher = await createWatcher(
+      watchPaths,
+      () => {
+        reload().catch((err: unknown) => {
+          logDev(
+            `${colorize.red("error")} ${colorize.gray("reload failed")} ${colorize.dim(err instanceof Error ? err.message : String(err))}`,
+            "error",
+          );
+        });
+      },
+      { onWarn: (message) => logDev(`${colorize.yellow("warn")} ${colorize.gray(message)}`) },
+    );
+  };
+
+  /**
+   * Ask a session's client for its roots when it supports them.
+   */
+  const refreshRoots = (session: RuntimeSession) => {
+    if (!session.clientCapabilities.roots) return;
+    session
+      .request("roots/list")
+      .then((result) => {
+        session.roots = parseRoots(result);
+        logDev(
+          `${colorize.gray("roots")} ${colorize.dim(session.roots.map((root) => root.uri).join(", ") || "none")}`,
+          "verbose",
+        );
+      })
+      .catch((err: unknown) => {
+        logDev(
+          `${colorize.yellow("warn")} ${colorize.gray("roots/list failed")} ${colorize.dim(err instanceof Error ? err.message : String(err))}`,
+        );
+      });
+  };
+
+  /**
+   * Stop watching a resource once its last subscriber is gone.
+   */
+  const releaseSubscription = (uri: string) => {
+    subscriptions.delete(uri);
+    const watcher = subscriptionWatchers.get(uri);
+    subscriptionWatchers.delete(uri);
+    watcher?.then((close) => close()).catch(() => {});
+  };
+
+  /**
+   * Subscribe a session to update notifications for a resource file.
+   */
+  const subscribeResource = (session: RuntimeSession, uri: string, file: string) => {
+    const subscribers = subscriptions.get(uri) ?? new Set<RuntimeSession>();
+    if (subscribers.has(session)) return;
+    subscribers.add(session);
+    subscriptions.set(uri, subscribers);
+    const cleanups = subscriptionCleanups.get(session) ?? new Map<string, () => void>();
+    cleanups.set(
+      uri,
+      session.onClose(() => unsubscribeResource(session, uri)),
+    );
+    subscriptionCleanups.set(session, cleanups);
+    if (subscriptionWatchers.has(uri)) return;
+    const watcher = createWatcher(
+      [path.resolve(cwd, file)],
+      () => {
+        logDev(`${colorize.cyan("resource")} ${colorize.gray(`updated ${uri}`)}`, "verbose");
+        for (const subscriber of subscriptions.get(uri) ?? []) {
+          subscriber.send({
+            jsonrpc: "2.0",
+            method: "notifications/resources/updated",
+            params: { uri },
+          });
+        }
+      },
+      { onWarn: (message) => logDev(`${colorize.yellow("warn")} ${colorize.gray(message)}`) },
+    );
+    subscriptionWatchers.set(uri, watcher);
+  };
+
+  /**
+   * Remove a session subscription for a resource.
+   */
+  const unsubscribeResource = (session: RuntimeSession, uri: string) => {
+    const cleanups = subscriptionCleanups.get(session);
+    cleanups?.get(uri)?.();
+    cleanups?.delete(uri);
+    const subscribers = subscriptions.get(uri);
+    if (!subscribers) return;
+    subscribers.delete(session);
+    if (subscribers.size === 0) releaseSubscription(uri);
+  };
+
+  /**
+   * Build the context helpers that tool calls and resource loaders receive.
+   * `end` stops progress and log delivery once the call settles.
+   */
+  const createRequestHelpers = (options: {
+    name: string;
+    params: Record<string, unknown>;
+    signal: AbortSignal;
+    session?: RuntimeSession;
+    stream?: ResponseStream;
+  }): { helpers: ToolContextHelpers; end: () => void } => {
+    const { name, params, signal, session, stream } = options;
+    const send =
+      stream?.emit ?? (session ? (message: unknown) => session.send(message) : undefined);
+    const progress = createProgressReporter(readProgressToken(params), send);
+    const logger = createToolLogger({
+      logger: name,
+      send,
+      level: () => session?.logLevel ?? sessionlessLogLevel,
+      onLocal: (level, message) => {
+        const isError = LOGGING_LEVELS.indexOf(level) >= LOGGING_LEVELS.indexOf("error");
+        const label = isError ? colorize.red("log") : colorize.gray("log");
+        logDev(
+          `${label} ${colorize.cyan(name)} ${colorize.dim(level)} ${message}`,
+          isError ? "error" : level === "debug" ? "verbose" : "info",
+        );
+      },
+    });
+    /**
+     * Ask the client's model through sampling/createMessage.
+     */
+    const sample = (samplingRequest: SamplingRequest) =>
+      requestClient(session, "sampling", "sampling/createMessage", samplingRequest, {
+        signal,
+        send: stream?.emit,
+      }) as Promise<SamplingResult>;
+    /**
+     * Ask the user through elicitation/create and validate accepted content.
+     */
+    const elicit = async (elicitRequest: ElicitRequest): Promise<ElicitResult> => {
+      const reply = asRecord(
+        await requestClient(session, "elicitation", "elicitation/create", elicitRequest, {
+          signal,
+          send: stream?.emit,
+        }),
+      );
+      const action = reply?.action;
+      if (action === "decline" || action === "cancel") return { action };
+      if (action !== "accept") throw new Error("invalid elicitation response");
+      const content = asRecord(reply?.content) ?? {};
+      const validation = validateSchema(elicitRequest.requestedSchema, content);
+      if (!validation.ok) {
+        throw new Error(`elicitation response invalid: ${validation.error ?? "schema mismatch"}`);
+      }
+      return { action, content };
+    };
+    return {
+      helpers: {
+        progress: progress.report,
+        log: logger.log,
+        sample,
+        elicit,
+        roots: [...(session?.roots ?? [])],
+        signal,
+      },
+      end: () => {
+        progress.end();
+        logger.end();
+      },
+    };
+  };
+
+  /**
+   * Read one resource (file, code module, or template match) as a contents entry.
+   * Code loaders get the same context helpers as tools, scoped to `request`.
+   * Resolves to null when no resource matches the URI.
+   */
+  const readResource = async (
+    uri: string,
+    context: unknown,
+    request: ClientRequest,
+  ): Promise<Record<string, unknown> | null> => {
+    const resource = resources.find((item) => resourceUri(item.name) === uri || item.file === uri);
+    if (resource && !resource.dynamic) {
+      const mimeType = resource.mediaType ?? detectMimeType(resource.file);
+      const content = fs.readFileSync(path.resolve(cwd, resource.file));
+      return isTextMimeType(mimeType)
+        ? { uri: resourceUri(resource.name), mimeType, text: content.toString("utf8") }
+        : { uri: resourceUri(resource.name), mimeType, blob: content.toString("base64") };
+    }
+    const match = resource ? null : matchResourceTemplate(resourceTemplates, uri);
+    const target = resource
+      ? {
+          name: resource.name,
+          file: resource.file,
+          uri: resourceUri(resource.name),
+          mimeType: resource.mediaType,
+          variables: {},
+        }
+      : match && {
+          name: match.template.name,
+          file: match.template.file,
+          uri,
+          mimeType: match.template.mimeType,
+          variables: match.variables,
+        };
+    if (!target) return null;
+    const controller = new AbortController();
+    /**
+     * Abort the loader when the client drops the response.
+     */
+    const onDisconnect = () => controller.abort(new Error("client disconnected"));
+    request.stream?.signal?.addEventListener("abort", onDisconnect, { once: true });
+    const call = createRequestHelpers({
+      name: target.name,
+      params: request.params,
+      signal: controller.signal,
+      session: request.session,
+      stream: request.stream,
+    });
+    try {
+      const mod = await loadToolModule(path.resolve(cwd, target.file));
+      const loader = mod.default;
+      if (typeof loader !== "function") {
+        throw new Error("resource loader not found");
+      }
+      const output = await withTimeout(
+        raceAbort(
+          Promise.resolve(loader(target.variables, createToolContext(context, call.helpers))),
+          controller.signal,
+        ),
+        toolTimeoutMs,
+        `resource ${target.name}`,
+        controller,
+      );
+      return toResourceContents(target.uri, target.mimeType, output);
+    } catch (error) {
+      const message = (error as Error).message || "resource error";
+      logDev(
+        `${colorize.red("error")} ${colorize.gray(`resource ${target.name}`)} ${colorize.dim(message)}`,
+        "error",
+      );
+      recordError(metrics, message);
+      throw error;
+    } finally {
+      call.end();
+      request.stream?.signal?.removeEventListener("abort", onDisconnect);
+    }
+  };
+
+  /**
+   * Build the messages for a prompt from its Markdown body or its code module.
+   * Code prompts get the same context helpers as tools, scoped to `request`.
+   */
+  const renderPrompt = async (
+    prompt: DiscoveredPrompt,
+    values: Record<string, unknown>,
+    context: unknown,
+    request: ClientRequest,
+  ): Promise<{ description?: string; messages: PromptMessage[] }> => {
+    const filePath = path.resolve(cwd, prompt.file);
+    if (prompt.dynamic) {
+      const mod = await loadToolModule(filePath);
+      const handler = mod.default;
+      if (typeof handler !== "function") {
+        throw new Error("prompt handler not found");
+      }
+      const controller = new AbortController();
+      /**
+       * Abort the prompt handler when the client drops the response.
+       */
+      const onDisconnect = () => controller.abort(new Error("client disconnected"));
+      request.stream?.signal?.addEventListener("abort", onDisconnect, { once: true });
+      const call = createRequestHelpers({
+        name: prompt.name,
+        params: request.params,
+        signal: controller.signal,
+        session: request.session,
+        stream: request.stream,
+      });
+      try {
+        const output = await withTimeout(
+          raceAbort(
+            Promise.resolve(handler(values, createToolContext(context, call.helpers))),
+            controller.signal,
+          ),
+          toolTimeoutMs,
+          `prompt ${prompt.name}`,
+          controller,
+        );
+        return normalizePromptOutput(output);
+      } finally {
+        call.end();
+        request.stream?.signal?.removeEventListener("abort", onDisconnect);
+      }
+    }
+    const parsed = parseFrontmatter(fs.readFileSync(filePath, "utf8"));
+    const messages = await Promise.all(
+      renderPromptMessages(parsed.body, prompt.inputs, values).map(async (section) => ({
+        role: section.role,
+        content: await Promise.all(
+          section.parts.map(async (part) => {
+            if (part.type === "text") return part;
+            const resource = await readResource(part.uri, context, request);
+            if (!resource) throw new Error(`prompt references unknown resource ${part.uri}`);
+            return { type: "resource", resource };
+          }),
+        ),
+      })),
+    );
+    return { messages };
+  };
+
+  /**
+   * Complete a prompt argument or resource template variable.
+   * Resolves to null when the referenced prompt does not exist.
+   */
+  const completeArgument = async (
+    ref: Record<string, unknown>,
+    name: string,
+    value: string,
+    args: Record<string, string>,
+    context: unknown,
+  ): Promise<Completion | null> => {
+    if (ref.type === "ref/prompt" || ref.type === "prompt") {
+      const prompt = prompts.find((item) => item.name === ref.name);
+      if (!prompt) return null;
+      if (prompt.dynamic) {
+        const mod = await loadToolModule(path.resolve(cwd, prompt.file));
+        const values = await runCompleteExport(mod.complete, name, value, context, args);
+        if (values) return toCompletion(values);
+      }
+      const input = prompt.inputs?.find((item) => item.name === name);
+      return toCompletion(filterByPrefix(input?.enum ?? [], value));
+    }
+    const template = resourceTemplates.find((item) => item.uriTemplate === ref.uri);
+    if (!template || !template.variables.includes(name)) return toCompletion([]);
+    const mod = await loadToolModule(path.resolve(cwd, template.file));
+    return toCompletion((await runCompleteExport(mod.complete, name, value, context, args)) ?? []);
+  };
+
   /**
    * Initialize discovery, context, and env for the runtime.
    */
@@ -1201,21 +1892,14 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
         }
       }
     }
-    const toolsDir = normalized.toolsDir ?? "tools";
-    const resourcesDir = normalized.resourcesDir ?? "resources";
-    const promptsDir = normalized.promptsDir ?? "prompts";
     toolTimeoutMs =
       Number(process.env.DZX_TOOL_TIMEOUT_MS ?? DEFAULT_TOOL_TIMEOUT_MS) || DEFAULT_TOOL_TIMEOUT_MS;
 
-    /**
-     * Emit a formatted warning during discovery.
-     */
-    const logWarn = (message: string) => {
-      logDev(`${colorize.yellow("warn")} ${colorize.gray(message)}`, "info");
-    };
-    tools = await discoverTools(cwd, toolsDir, { onWarn: logWarn });
-    resources = discoverResources(cwd, resourcesDir);
-    prompts = discoverPrompts(cwd, promptsDir);
+    const discovered = await discover(false);
+    tools = discovered.tools;
+    resources = discovered.resources;
+    resourceTemplates = discovered.resourceTemplates;
+    prompts = discovered.prompts;
     contextLoader = await loadContextModule(cwd);
     for (const tool of tools) {
       ensureToolMetrics(metrics, tool.name);
@@ -1236,13 +1920,77 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
     initialized = true;
   };
 
+  /**
+   * Terminate a client session and release its event stream.
+   */
+  const closeSession = (session: RuntimeSession) => {
+    sessions.delete(session.id);
+    session.close();
+    logDev(`${colorize.gray("session closed")} ${colorize.dim(session.id)}`, "verbose");
+  };
+
+  /**
+   * Open the long-lived SSE channel used for server-initiated messages.
+   */
+  const openEventStream = (session: RuntimeSession, res: http.ServerResponse) => {
+    if (session.hasChannel()) {
+      res.statusCode = 409;
+      res.end("event stream already open for session");
+      return;
+    }
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader(SESSION_HEADER, session.id);
+    res.flushHeaders();
+    /**
+     * Forward a server-initiated message to this stream.
+     */
+    const channel = (message: unknown) => writeSSE(res, message);
+    const keepAlive = setInterval(() => res.write(": keepalive\n\n"), SSE_KEEPALIVE_MS);
+    keepAlive.unref();
+    let removeCloseListener = () => {};
+    /**
+     * Detach the stream once either side goes away.
+     */
+    const release = () => {
+      clearInterval(keepAlive);
+      removeCloseListener();
+      session.detach(channel);
+      session.lastActiveAt = Date.now();
+      if (!res.writableEnded) res.end();
+    };
+    res.once("close", release);
+    removeCloseListener = session.onClose(release);
+    session.attach(channel);
+  };
+
   const server: RuntimeServer = {
     manifest: normalized,
     init,
+    reload,
     processRequest: handleRequest,
     async start() {
+      if (process.env.DZX_TRANSPORT === "stdio") {
+        await server.startStdio();
+        return;
+      }
       await init();
+      await startWatching();
       const startedAt = Date.now();
+      if (!sessionSweep) {
+        // Clients that never send DELETE would otherwise leak sessions.
+        sessionSweep = setInterval(() => {
+          const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+          for (const session of sessions.values()) {
+            if (!session.hasChannel() && session.lastActiveAt < cutoff) {
+              closeSession(session);
+            }
+          }
+        }, 60_000);
+        sessionSweep.unref();
+      }
       const port = options.port ?? Number(process.env.PORT || 3333);
 
       const serverInstance = http.createServer(async (req, res) => {
@@ -1295,6 +2043,7 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
               resources,
               prompts,
               metrics,
+              sessions: Array.from(sessions.values()),
             }),
           );
           return;
@@ -1347,6 +2096,7 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
               tools: tools.length,
               resources: resources.length,
               prompts: prompts.length,
+              sessions: sessions.size,
             },
             requests: {
               total: metrics.requests.total,
@@ -1360,13 +2110,15 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
           return;
         }
 
-        if (method !== "POST") {
+        const isMcpPath = url.pathname.startsWith("/mcp/");
+        const sessionMethod = method === "GET" || method === "DELETE";
+        if (method !== "POST" && !(isMcpPath && sessionMethod)) {
           res.statusCode = 405;
           res.end("method not allowed");
           return;
         }
 
-        if (!url.pathname.startsWith("/mcp/")) {
+        if (!isMcpPath) {
           res.statusCode = 404;
           res.end("not found");
           return;
@@ -1379,6 +2131,36 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
           return;
         }
 
+        const sessionId = readSessionId(req);
+        let session = sessionId ? sessions.get(sessionId) : undefined;
+        if (sessionId && !session) {
+          res.statusCode = 404;
+          res.end("session not found");
+          return;
+        }
+
+        if (method === "GET") {
+          if (!session) {
+            res.statusCode = 400;
+            res.end("missing session id");
+            return;
+          }
+          openEventStream(session, res);
+          return;
+        }
+
+        if (method === "DELETE") {
+          if (!session) {
+            res.statusCode = 400;
+            res.end("missing session id");
+            return;
+          }
+          closeSession(session);
+          res.statusCode = 200;
+          res.end();
+          return;
+        }
+
         const body = await readBody(req);
         if (!body.trim()) {
           res.statusCode = 400;
@@ -1387,14 +2169,24 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
           return;
         }
 
+        if (!session && isInitializeBody(body)) {
+          session = createSession();
+          sessions.set(session.id, session);
+          logDev(`${colorize.gray("session")} ${colorize.cyan(session.id)}`, "verbose");
+        }
+        if (session) {
+          session.lastActiveAt = Date.now();
+          res.setHeader(SESSION_HEADER, session.id);
+        }
+
         const stream = wantsStream(req);
         if (stream) {
-          await handleStream(body, res, context);
+          await handleStream(body, res, context, session);
           res.end();
           return;
         }
 
-        const response = await handleRequest(body, context);
+        const response = await handleRequest(body, context, session);
         if (response === null) {
           res.statusCode = 202;
           res.end();
@@ -1403,6 +2195,7 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
         writeJSON(res, 200, response);
       });
 
+      httpServer = serverInstance;
       const host = process.env.DZX_HOST ?? (process.env.DZX_DEV === "1" ? "127.0.0.1" : "0.0.0.0");
       let listenMode: "tcp" | "socket" | "disabled" = "tcp";
       let listenValue = `${host}:${port}`;
@@ -1549,12 +2342,98 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
         setInterval(() => {}, 1 << 30).unref();
       }
     },
+    async close() {
+      if (closeWatcher) {
+        closeWatcher();
+        closeWatcher = null;
+      }
+      if (sessionSweep) {
+        clearInterval(sessionSweep);
+        sessionSweep = null;
+      }
+      for (const session of Array.from(sessions.values())) {
+        closeSession(session);
+      }
+      for (const uri of Array.from(subscriptions.keys())) {
+        releaseSubscription(uri);
+      }
+      const instance = httpServer;
+      httpServer = null;
+      if (!instance) return;
+      await new Promise<void>((resolve) => {
+        instance.close(() => resolve());
+        instance.closeAllConnections();
+      });
+    },
+    async startStdio(streams: StdioStreams = {}) {
+      await init();
+      await startWatching();
+      const startedAt = Date.now();
+      // stdio carries exactly one client, so it gets a single implicit session.
+      const session = createSession();
+      sessions.set(session.id, session);
+      const transport = createStdioTransport(streams, async (line) => {
+        let context: unknown = {};
+        if (contextLoader) {
+          try {
+            context = await contextLoader();
+          } catch (err: unknown) {
+            logDev(
+              `${colorize.red("error")} ${colorize.gray("context creation failed")} ${colorize.dim(err instanceof Error ? err.message : String(err))}`,
+              "error",
+            );
+            transport.send(invalidRequest(null, "internal error", -32603));
+            return;
+          }
+        }
+        session.lastActiveAt = Date.now();
+        const response = await handleRequest(line, context, session);
+        if (response !== null) {
+          transport.send(response);
+        }
+      });
+      session.attach(transport.send);
+      transport.closed.then(() => closeSession(session));
+
+      if (process.env.DZX_QUIET !== "1" && process.env.DZX_DEV === "1") {
+        const devMode = process.env.DZX_DEV_MODE ?? "start";
+        const envMode = process.env.DZX_ENV ?? process.env.NODE_ENV ?? "development";
+        if (devMode === "start") {
+          if (process.env.DZX_DEV_BANNER !== "0") {
+            const version = process.env.DZX_VERSION ?? getDzxVersion();
+            logDev(
+              `${colorize.blue(symbols.brand)} ${colorize.bold(`dzx v${version}`)} ${colorize.gray("dev")}`,
+            );
+          }
+          logDev(`${colorize.gray("  stdio  ")} ${colorize.cyan("stdin/stdout")}`);
+          logDev(`${colorize.gray("  ready  ")} ${colorize.cyan(`${Date.now() - startedAt}ms`)}`);
+          logDev(`${colorize.gray("  env    ")} ${colorize.cyan(envMode)}`);
+          logDev(`${colorize.gray("  logs   ")} ${colorize.cyan(resolveLogLevel())}`);
+          logDev(`${colorize.gray("  timeout")} ${colorize.cyan(`${toolTimeoutMs}ms`)}`);
+          logDev("");
+        }
+      }
+
+      // Only own the process lifecycle when serving the real stdio pipes.
+      if (!streams.input) {
+        transport.closed.then(() => process.exit(0));
+        if (!signalHandlersAttached) {
+          signalHandlersAttached = true;
+          process.on("SIGINT", () => process.exit(0));
+          process.on("SIGTERM", () => process.exit(0));
+        }
+      }
+    },
   };
 
   /**
    * Handle a non-streaming JSON-RPC request body.
    */
-  async function handleRequest(raw: string, context: unknown): Promise<unknown | null> {
+  async function handleRequest(
+    raw: string,
+    context: unknown,
+    session?: RuntimeSession,
+  ): Promise<unknown | null> {
     const trimmed = raw.trim();
     if (trimmed.startsWith("[")) {
       let batch: JSONRPCRequest[];
@@ -1566,7 +2445,7 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
       }
       const responses: JSONRPCResponse[] = [];
       for (const item of batch) {
-        const { response, notification } = await handleSingle(item, context);
+        const { response, notification } = await handleSingle(item, context, session);
         if (!notification && response) {
           responses.push(response);
         }
@@ -1581,7 +2460,7 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
       logDev(`${colorize.red("error")} ${colorize.gray("parse error")}`, "error");
       return invalidRequest(null, "parse error", -32700);
     }
-    const { response, notification } = await handleSingle(request, context);
+    const { response, notification } = await handleSingle(request, context, session);
     if (notification) return null;
     return response;
   }
@@ -1593,7 +2472,16 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
     raw: string,
     res: http.ServerResponse,
     context: unknown,
+    session?: RuntimeSession,
   ): Promise<void> {
+    const disconnected = new AbortController();
+    res.once("close", () => {
+      if (!res.writableFinished) disconnected.abort(new Error("client disconnected"));
+    });
+    const stream: ResponseStream = {
+      emit: (message) => writeSSE(res, message),
+      signal: disconnected.signal,
+    };
     const bodies = splitJsonRpcRequests(raw);
     if (bodies.length === 0) {
       logDev(`${colorize.red("error")} ${colorize.gray("parse error")}`, "error");
@@ -1609,7 +2497,7 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
         writeSSE(res, invalidRequest(null, "parse error", -32700));
         continue;
       }
-      const { response } = await handleSingle(request, context);
+      const { response } = await handleSingle(request, context, session, stream);
       if (response) {
         writeSSE(res, response);
       }
@@ -1618,10 +2506,13 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
 
   /**
    * Handle a single JSON-RPC message (request or notification).
+   * `stream` delivers related messages (like progress) on the response stream.
    */
   async function handleSingle(
     request: JSONRPCRequest,
     context: unknown,
+    session?: RuntimeSession,
+    stream?: ResponseStream,
   ): Promise<{ response?: JSONRPCResponse; notification: boolean }> {
     if (request.jsonrpc !== "2.0") {
       logDev(`${colorize.red("error")} ${colorize.gray("invalid request")}`, "error");
@@ -1638,16 +2529,39 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
 
     const notification = request.id === undefined || request.id === null;
 
+    // Responses to requests the server sent to the client (e.g. sampling).
+    const incoming = request as Record<string, unknown>;
+    if (
+      request.method === undefined &&
+      !notification &&
+      ("result" in incoming || "error" in incoming)
+    ) {
+      if (!session?.resolveResponse(incoming)) {
+        logDev(
+          `${colorize.yellow("warn")} ${colorize.gray(`unexpected response id=${String(request.id)}`)}`,
+          "verbose",
+        );
+      }
+      return { response: undefined, notification: true };
+    }
+
     switch (method) {
       case "initialize": {
         const params = asRecord(request.params);
         const requestedVersion =
           params && typeof params.protocolVersion === "string" ? params.protocolVersion : undefined;
         const manifestVersion = (normalized as { protocolVersion?: string }).protocolVersion;
+        if (session && params) {
+          session.protocolVersion = requestedVersion;
+          session.clientInfo = asRecord(params.clientInfo) ?? undefined;
+          session.clientCapabilities = asRecord(params.capabilities) ?? {};
+        }
         const capabilities: Record<string, unknown> = {
-          tools: { listChanged: true, list: true },
-          resources: { listChanged: false },
-          prompts: { listChanged: false },
+          tools: { listChanged: closeWatcher !== null, list: true },
+          resources: resourcesSubscribeEnabled
+            ? { listChanged: closeWatcher !== null, subscribe: true }
+            : { listChanged: closeWatcher !== null },
+          prompts: { listChanged: closeWatcher !== null },
           logging: {},
         };
         if (completionCompleteEnabled) {
@@ -1679,194 +2593,336 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
         return { response: { jsonrpc: "2.0", id: request.id ?? null, result }, notification };
       }
       case "notifications/initialized":
+        if (session) refreshRoots(session);
+        return { response: undefined, notification: true };
+      case "notifications/roots/list_changed":
+        if (session) refreshRoots(session);
         return { response: undefined, notification: true };
       case "ping":
         return { response: { jsonrpc: "2.0", id: request.id ?? null, result: {} }, notification };
       case "tools/list": {
+        const paged = paginate(
+          tools,
+          (tool) => `${tool.file}#${tool.name}`,
+          asRecord(request.params) ?? {},
+          pageSize,
+        );
+        if (!paged) {
+          return {
+            response: invalidRequest(request.id ?? null, "invalid cursor", -32602),
+            notification,
+          };
+        }
         return {
           response: {
             jsonrpc: "2.0",
             id: request.id ?? null,
-            result: { tools: normalizeToolList(tools) },
+            result: paged.nextCursor
+              ? { tools: normalizeToolList(paged.page), nextCursor: paged.nextCursor }
+              : { tools: normalizeToolList(paged.page) },
           },
           notification,
         };
       }
       case "tools/call": {
         const toolStart = Date.now();
-        const params = asRecord(request.params) ?? {};
-        const nameValue = params.name;
-        const toolName = typeof nameValue === "string" ? nameValue : undefined;
-        const args = "arguments" in params ? params.arguments : undefined;
-        const callArgs = args ?? {};
-        if (!toolName) {
-          logDev(`${colorize.red("error")} ${colorize.gray("invalid params")}`, "error");
-          recordError(metrics, "invalid params");
-          return {
-            response: invalidRequest(request.id ?? null, "invalid params", -32602),
-            notification,
-          };
-        }
-        const tool = tools.find((item) => item.name === toolName);
-        if (!tool) {
-          logDev(`${colorize.red("error")} ${colorize.gray(`unknown tool ${toolName}`)}`, "error");
-          recordError(metrics, `unknown tool ${toolName}`, toolName);
-          return {
-            response: invalidRequest(request.id ?? null, "unknown tool", -32602),
-            notification,
-          };
-        }
-        if (tool.inputSchema) {
-          const validation = validateSchema(tool.inputSchema, callArgs);
-          if (!validation.ok) {
-            const elapsed = Date.now() - toolStart;
-            const location = formatToolLocation(tool);
-            const errorText = `${validation.error ?? "input validation failed"} (${location})`;
-            logDev(
-              `${colorize.red("error")} ${colorize.gray(`input invalid for ${toolName}`)} ${colorize.dim(errorText)}`,
-              "error",
-            );
-            recordToolCall(metrics, toolName, elapsed, errorText);
+        let cancelledReason: string | null = null;
+        const controller = new AbortController();
+        /**
+         * Abort the handler on client cancellation; its response is dropped.
+         */
+        const cancel = (reason: string) => {
+          if (controller.signal.aborted) return;
+          cancelledReason = reason;
+          controller.abort(new Error(reason));
+        };
+        /**
+         * Treat a dropped SSE response as a cancellation.
+         */
+        const onDisconnect = () => cancel("client disconnected");
+        // Sessionless requests cannot be told apart by id, so only a dropped
+        // response cancels them.
+        const callKey =
+          notification || !session ? null : requestKey(session, request.id as string | number);
+        if (callKey) inFlight.set(callKey, cancel);
+        stream?.signal?.addEventListener("abort", onDisconnect, { once: true });
+        if (stream?.signal?.aborted) onDisconnect();
+        try {
+          const params = asRecord(request.params) ?? {};
+          const nameValue = params.name;
+          const toolName = typeof nameValue === "string" ? nameValue : undefined;
+          const args = "arguments" in params ? params.arguments : undefined;
+          const callArgs = args ?? {};
+          if (!toolName) {
+            logDev(`${colorize.red("error")} ${colorize.gray("invalid params")}`, "error");
+            recordError(metrics, "invalid params");
             return {
-              response: invalidRequest(request.id ?? null, "input validation failed", -32602),
+              response: invalidRequest(request.id ?? null, "invalid params", -32602),
               notification,
             };
           }
-        }
-        try {
-          const modulePath = path.resolve(cwd, tool.file);
-          const mod = await loadToolModule(modulePath);
-          const fn = mod.default;
-          if (typeof fn !== "function") {
-            const elapsed = Date.now() - toolStart;
+          const tool = tools.find((item) => item.name === toolName);
+          if (!tool) {
             logDev(
-              `${colorize.red("error")} ${colorize.gray(`handler missing for ${toolName}`)}`,
+              `${colorize.red("error")} ${colorize.gray(`unknown tool ${toolName}`)}`,
               "error",
             );
-            recordToolCall(metrics, toolName, elapsed, "handler missing");
-            return {
-              response: invalidRequest(request.id ?? null, "tool handler not found", -32601),
-              notification,
-            };
-          }
-          if (fn.constructor?.name !== "AsyncFunction") {
-            const elapsed = Date.now() - toolStart;
-            const location = formatToolLocation(tool);
-            const errorText = `tool handler must be async (${location})`;
-            logDev(`${colorize.red("error")} ${colorize.gray(errorText)}`, "error");
-            recordToolCall(metrics, toolName, elapsed, errorText);
-            return {
-              response: invalidRequest(request.id ?? null, "tool handler must be async", -32601),
-              notification,
-            };
-          }
-          // Pass context as the second argument
-          const output = await withTimeout(
-            Promise.resolve(fn(callArgs, context)),
-            toolTimeoutMs,
-            toolName,
-          );
-          const text = typeof output === "string" ? output : JSON.stringify(output ?? {});
-          const result: {
-            content: Array<{ type: string; text: string }>;
-            isError: boolean;
-            structuredContent?: unknown;
-          } = {
-            content: [{ type: "text", text }],
-            isError: false,
-          };
-          const requiresStructured =
-            Boolean(tool.outputSchemaSource) && tool.outputSchemaSource !== "default";
-          if (requiresStructured && output === undefined) {
-            const elapsed = Date.now() - toolStart;
-            const location = formatToolLocation(tool);
-            const errorText = `structured output required for ${toolName} (${location})`;
-            logDev(`${colorize.red("error")} ${colorize.gray(errorText)}`, "error");
-            recordToolCall(metrics, toolName, elapsed, errorText);
-            const errorResult = {
-              content: [{ type: "text", text: errorText }],
-              isError: true,
-            };
+            recordError(metrics, `unknown tool ${toolName}`, toolName);
             return {
-              response: { jsonrpc: "2.0", id: request.id ?? null, result: errorResult },
+              response: invalidRequest(request.id ?? null, "unknown tool", -32602),
               notification,
             };
           }
-          if (tool.outputSchema) {
-            const validation = validateSchema(tool.outputSchema, output);
+          if (tool.inputSchema) {
+            const validation = validateSchema(tool.inputSchema, callArgs);
             if (!validation.ok) {
+              const elapsed = Date.now() - toolStart;
               const location = formatToolLocation(tool);
-              const errorText = `${validation.error ?? "output validation failed"} (${location})`;
+              const errorText = `${validation.error ?? "input validation failed"} (${location})`;
+              logDev(
+                `${colorize.red("error")} ${colorize.gray(`input invalid for ${toolName}`)} ${colorize.dim(errorText)}`,
+                "error",
+              );
+              recordToolCall(metrics, toolName, elapsed, errorText);
+              return {
+                response: invalidRequest(request.id ?? null, "input validation failed", -32602),
+                notification,
+              };
+            }
+          }
+          try {
+            const modulePath = path.resolve(cwd, tool.file);
+            const isolation = resolveIsolationMode(normalized.isolation, toolName);
+            let fn: ((args: unknown, context: unknown) => unknown) | null = null;
+            let handlerProblem: "handler-missing" | "handler-not-async" | null = null;
+            if (isolation === "inline") {
+              const mod = await loadToolModule(modulePath);
+              const handler = resolveToolExport(mod, tool.export);
+              if (typeof handler !== "function") {
+                handlerProblem = "handler-missing";
+              } else if (handler.constructor?.name !== "AsyncFunction") {
+                handlerProblem = "handler-not-async";
+              } else {
+                fn = handler as (args: unknown, context: unknown) => unknown;
+              }
+            }
+            const call = createRequestHelpers({
+              name: toolName,
+              params,
+              signal: controller.signal,
+              session,
+              stream,
+            });
+            // skip handlers whose request was cancelled while loading
+            if (controller.signal.aborted) throw controller.signal.reason;
+            let output: unknown;
+            try {
+              if (fn) {
+                const toolContext = createToolContext(context, call.helpers);
+                // Pass context (with runtime helpers) as the second argument
+                output = await withTimeout(
+                  raceAbort(Promise.resolve(fn(callArgs, toolContext)), controller.signal),
+                  toolTimeoutMs,
+                  toolName,
+                  controller,
+                );
+              } else if (!handlerProblem) {
+                // Timeouts and cancellation terminate the worker through the signal.
+                const outcome = await withTimeout(
+                  runToolInWorker({
+                    file: modulePath,
+                    export: tool.export,
+                    args: callArgs,
+                    context,
+                    signal: controller.signal,
+                    progress: call.helpers.progress,
+                    log: call.helpers.log,
+                    roots: call.helpers.roots,
+                    call: (helper, helperParams) => {
+                      if (helper === "sample") {
+                        return call.helpers.sample(helperParams as SamplingRequest);
+                      }
+                      if (helper === "elicit") {
+                        return call.helpers.elicit(helperParams as ElicitRequest);
+                      }
+                      return Promise.reject(new Error(`unknown helper ${helper}`));
+                    },
+                    resourceLimits: normalized.isolation?.resourceLimits,
+                  }),
+                  toolTimeoutMs,
+                  toolName,
+                  controller,
+                );
+                if ("handlerError" in outcome) {
+                  handlerProblem = outcome.handlerError;
+                } else {
+                  output = outcome.output;
+                }
+              }
+            } finally {
+              call.end();
+            }
+            if (cancelledReason) throw controller.signal.reason;
+            if (handlerProblem === "handler-missing") {
+              const elapsed = Date.now() - toolStart;
               logDev(
-                `${colorize.red("error")} ${colorize.gray(`output invalid for ${toolName}`)} ${colorize.dim(errorText)}`,
+                `${colorize.red("error")} ${colorize.gray(`handler missing for ${toolName}`)}`,
                 "error",
               );
+              recordToolCall(metrics, toolName, elapsed, "handler missing");
+              return {
+                response: invalidRequest(request.id ?? null, "tool handler not found", -32601),
+                notification,
+              };
+            }
+            if (handlerProblem === "handler-not-async") {
+              const elapsed = Date.now() - toolStart;
+              const location = formatToolLocation(tool);
+              const errorText = `tool handler must be async (${location})`;
+              logDev(`${colorize.red("error")} ${colorize.gray(errorText)}`, "error");
+              recordToolCall(metrics, toolName, elapsed, errorText);
+              return {
+                response: invalidRequest(request.id ?? null, "tool handler must be async", -32601),
+                notification,
+              };
+            }
+            // Output built with the content helpers carries its own parts.
+            const rich = readToolContent(output);
+            const structuredOutput = rich ? rich.structuredContent : output;
+            const text = typeof output === "string" ? output : JSON.stringify(output ?? {});
+            const result: {
+              content: unknown[];
+              isError: boolean;
+              structuredContent?: unknown;
+            } = {
+              content: rich ? rich.content : [{ type: "text", text }],
+              isError: false,
+            };
+            const requiresStructured =
+              Boolean(tool.outputSchemaSource) && tool.outputSchemaSource !== "default";
+            if (requiresStructured && structuredOutput === undefined) {
+              const elapsed = Date.now() - toolStart;
+              const location = formatToolLocation(tool);
+              const errorText = `structured output required for ${toolName} (${location})`;
+              logDev(`${colorize.red("error")} ${colorize.gray(errorText)}`, "error");
+              recordToolCall(metrics, toolName, elapsed, errorText);
               const errorResult = {
                 content: [{ type: "text", text: errorText }],
                 isError: true,
               };
-              const elapsed = Date.now() - toolStart;
-              recordToolCall(metrics, toolName, elapsed, errorText);
               return {
                 response: { jsonrpc: "2.0", id: request.id ?? null, result: errorResult },
                 notification,
               };
             }
-          }
-          if (requiresStructured) {
-            result.structuredContent = output;
-          } else if (output !== null && typeof output === "object") {
-            result.structuredContent = output;
-          }
-          if (result.structuredContent !== undefined) {
-            const structuredValue = result.structuredContent;
-            const keys =
-              structuredValue &&
-              typeof structuredValue === "object" &&
-              !Array.isArray(structuredValue)
-                ? Object.keys(structuredValue as Record<string, unknown>)
-                : [];
-            const keyList = keys.length > 0 ? ` keys: ${keys.join(", ")}` : "";
-            const typeLabel =
-              keys.length === 0
-                ? ` type: ${Array.isArray(structuredValue) ? "array" : typeof structuredValue}`
-                : "";
+            if (tool.outputSchema && !(rich && structuredOutput === undefined)) {
+              const validation = validateSchema(tool.outputSchema, structuredOutput);
+              if (!validation.ok) {
+                const location = formatToolLocation(tool);
+                const errorText = `${validation.error ?? "output validation failed"} (${location})`;
+                logDev(
+                  `${colorize.red("error")} ${colorize.gray(`output invalid for ${toolName}`)} ${colorize.dim(errorText)}`,
+                  "error",
+                );
+                const errorResult = {
+                  content: [{ type: "text", text: errorText }],
+                  isError: true,
+                };
+                const elapsed = Date.now() - toolStart;
+                recordToolCall(metrics, toolName, elapsed, errorText);
+                return {
+                  response: { jsonrpc: "2.0", id: request.id ?? null, result: errorResult },
+                  notification,
+                };
+              }
+            }
+            if (rich) {
+              if (structuredOutput !== undefined) result.structuredContent = structuredOutput;
+            } else if (requiresStructured) {
+              result.structuredContent = output;
+            } else if (output !== null && typeof output === "object") {
+              result.structuredContent = output;
+            }
+            if (result.structuredContent !== undefined) {
+              const structuredValue = result.structuredContent;
+              const keys =
+                structuredValue &&
+                typeof structuredValue === "object" &&
+                !Array.isArray(structuredValue)
+                  ? Object.keys(structuredValue as Record<string, unknown>)
+                  : [];
+              const keyList = keys.length > 0 ? ` keys: ${keys.join(", ")}` : "";
+              const typeLabel =
+                keys.length === 0
+                  ? ` type: ${Array.isArray(structuredValue) ? "array" : typeof structuredValue}`
+                  : "";
+              logDev(
+                `${colorize.cyan("structured")} ${colorize.gray(toolName)}${colorize.dim(keyList || typeLabel)}`,
+                "verbose",
+              );
+            }
+            const elapsed = Date.now() - toolStart;
+            logDev(
+              `${colorize.cyan("tool")} ${colorize.gray(toolName)} ${colorize.dim(`in ${elapsed}ms`)}`,
+              "info",
+            );
+            recordToolCall(metrics, toolName, elapsed);
+            return { response: { jsonrpc: "2.0", id: request.id ?? null, result }, notification };
+          } catch (error) {
+            const elapsed = Date.now() - toolStart;
+            if (cancelledReason) {
+              logDev(
+                `${colorize.yellow("tool")} ${colorize.gray(toolName)} ${colorize.dim(`cancelled after ${elapsed}ms (${cancelledReason})`)}`,
+                "info",
+              );
+              recordToolCall(metrics, toolName, elapsed, `cancelled: ${cancelledReason}`);
+              // cancelled requests must not receive a response
+              return { response: undefined, notification: true };
+            }
+            const message = (error as Error).message || "tool error";
             logDev(
-              `${colorize.cyan("structured")} ${colorize.gray(toolName)}${colorize.dim(keyList || typeLabel)}`,
-              "verbose",
+              `${colorize.red("tool")} ${colorize.gray(toolName)} ${colorize.dim(`in ${elapsed}ms`)} ${colorize.red(message)}`,
+              "error",
             );
+            recordToolCall(metrics, toolName, elapsed, message);
+            const result = {
+              content: [{ type: "text", text: (error as Error).message || "tool error" }],
+              isError: true,
+            };
+            return { response: { jsonrpc: "2.0", id: request.id ?? null, result }, notification };
           }
-          const elapsed = Date.now() - toolStart;
-          logDev(
-            `${colorize.cyan("tool")} ${colorize.gray(toolName)} ${colorize.dim(`in ${elapsed}ms`)}`,
-            "info",
-          );
-          recordToolCall(metrics, toolName, elapsed);
-          return { response: { jsonrpc: "2.0", id: request.id ?? null, result }, notification };
-        } catch (error) {
-          const elapsed = Date.now() - toolStart;
-          const message = (error as Error).message || "tool error";
-          logDev(
-            `${colorize.red("tool")} ${colorize.gray(toolName)} ${colorize.dim(`in ${elapsed}ms`)} ${colorize.red(message)}`,
-            "error",
-          );
-          recordToolCall(metrics, toolName, elapsed, message);
-          const result = {
-            content: [{ type: "text", text: (error as Error).message || "tool error" }],
-            isError: true,
-          };
-          return { response: { jsonrpc: "2.0", id: request.id ?? null, result }, notification };
+        } finally {
+          if (callKey) inFlight.delete(callKey);
+          stream?.signal?.removeEventListener("abort", onDisconnect);
         }
       }
       case "resources/list": {
-        const list = resources.map((resource) => ({
+        const paged = paginate(
+          resources,
+          (resource) => `${resource.file}#${resource.name}`,
+          asRecord(request.params) ?? {},
+          pageSize,
+        );
+        if (!paged) {
+          return {
+            response: invalidRequest(request.id ?? null, "invalid cursor", -32602),
+            notification,
+          };
+        }
+        const list = paged.page.map((resource) => ({
           uri: resourceUri(resource.name),
           name: resource.name,
           description: resource.description,
           mimeType: resource.mediaType,
         }));
         return {
-          response: { jsonrpc: "2.0", id: request.id ?? null, result: { resources: list } },
+          response: {
+            jsonrpc: "2.0",
+            id: request.id ?? null,
+            result: paged.nextCursor
+              ? { resources: list, nextCursor: paged.nextCursor }
+              : { resources: list },
+          },
           notification,
         };
       }
@@ -1879,27 +2935,23 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
             notification,
           };
         }
-        const resource = resources.find(
-          (item) => resourceUri(item.name) === uri || item.file === uri,
-        );
-        if (!resource) {
+        try {
+          const contents = await readResource(uri, context, { params, session, stream });
+          if (!contents) {
+            return {
+              response: invalidRequest(request.id ?? null, "resource not found", -32601),
+              notification,
+            };
+          }
+          const result = { contents: [contents] };
+          return { response: { jsonrpc: "2.0", id: request.id ?? null, result }, notification };
+        } catch (error) {
+          const message = (error as Error).message || "resource error";
           return {
-            response: invalidRequest(request.id ?? null, "resource not found", -32601),
+            response: invalidRequest(request.id ?? null, message, -32603),
             notification,
           };
         }
-        const filePath = path.resolve(cwd, resource.file);
-        const content = fs.readFileSync(filePath, "utf8");
-        const result = {
-          contents: [
-            {
-              uri: resourceUri(resource.name),
-              mimeType: resource.mediaType ?? "text/markdown",
-              text: content,
-            },
-          ],
-        };
-        return { response: { jsonrpc: "2.0", id: request.id ?? null, result }, notification };
       }
       case "resources/templates/list": {
         if (!resourcesTemplatesListEnabled) {
@@ -1910,18 +2962,70 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
             notification,
           };
         }
+        const paged = paginate(
+          resourceTemplates,
+          (template) => `${template.file}#${template.name}`,
+          asRecord(request.params) ?? {},
+          pageSize,
+        );
+        if (!paged) {
+          return {
+            response: invalidRequest(request.id ?? null, "invalid cursor", -32602),
+            notification,
+          };
+        }
+        const list = paged.page.map((template) => ({
+          uriTemplate: template.uriTemplate,
+          name: template.name,
+          description: template.description,
+          mimeType: template.mimeType,
+        }));
         return {
           response: {
             jsonrpc: "2.0",
             id: request.id ?? null,
-            result: { resourceTemplates: [] },
+            result: paged.nextCursor
+              ? { resourceTemplates: list, nextCursor: paged.nextCursor }
+              : { resourceTemplates: list },
           },
           notification,
         };
       }
       case "resources/subscribe":
-      case "resources/unsubscribe":
+      case "resources/unsubscribe": {
+        if (!resourcesSubscribeEnabled) {
+          return { response: { jsonrpc: "2.0", id: request.id ?? null, result: {} }, notification };
+        }
+        const params = asRecord(request.params) ?? {};
+        const uri = typeof params.uri === "string" ? params.uri : undefined;
+        if (!uri) {
+          return {
+            response: invalidRequest(request.id ?? null, "invalid params", -32602),
+            notification,
+          };
+        }
+        if (!session) {
+          return {
+            response: invalidRequest(request.id ?? null, "subscriptions require a session"),
+            notification,
+          };
+        }
+        const resource = resources.find(
+          (item) => resourceUri(item.name) === uri || item.file === uri,
+        );
+        if (method === "resources/unsubscribe") {
+          unsubscribeResource(session, resource ? resourceUri(resource.name) : uri);
+          return { response: { jsonrpc: "2.0", id: request.id ?? null, result: {} }, notification };
+        }
+        if (!resource) {
+          return {
+            response: invalidRequest(request.id ?? null, "resource not found", -32601),
+            notification,
+          };
+        }
+        subscribeResource(session, resourceUri(resource.name), resource.file);
         return { response: { jsonrpc: "2.0", id: request.id ?? null, result: {} }, notification };
+      }
       case "completion/complete": {
         if (!completionCompleteEnabled) {
           const rawMethod = request.method ?? "unknown";
@@ -1931,23 +3035,72 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
             notification,
           };
         }
-        return {
-          response: {
-            jsonrpc: "2.0",
-            id: request.id ?? null,
-            result: { completion: { values: [], hasMore: false } },
-          },
-          notification,
-        };
+        const params = asRecord(request.params) ?? {};
+        const ref = asRecord(params.ref);
+        const argument = asRecord(params.argument);
+        if (!ref || !argument || typeof argument.name !== "string") {
+          return {
+            response: invalidRequest(request.id ?? null, "invalid params", -32602),
+            notification,
+          };
+        }
+        const value = typeof argument.value === "string" ? argument.value : "";
+        const resolved = asRecord(asRecord(params.context)?.arguments) ?? {};
+        const args = Object.fromEntries(
+          Object.entries(resolved).filter((entry): entry is [string, string] => {
+            return typeof entry[1] === "string";
+          }),
+        );
+        try {
+          const completion = await completeArgument(ref, argument.name, value, args, context);
+          if (!completion) {
+            return {
+              response: invalidRequest(request.id ?? null, "prompt not found", -32602),
+              notification,
+            };
+          }
+          return {
+            response: { jsonrpc: "2.0", id: request.id ?? null, result: { completion } },
+            notification,
+          };
+        } catch (error) {
+          const message = (error as Error).message || "completion error";
+          logDev(
+            `${colorize.red("error")} ${colorize.gray("completion")} ${colorize.dim(message)}`,
+            "error",
+          );
+          return {
+            response: invalidRequest(request.id ?? null, message, -32603),
+            notification,
+          };
+        }
       }
       case "prompts/list": {
-        const list = prompts.map((prompt) => ({
+        const paged = paginate(
+          prompts,
+          (prompt) => `${prompt.file}#${prompt.name}`,
+          asRecord(request.params) ?? {},
+          pageSize,
+        );
+        if (!paged) {
+          return {
+            response: invalidRequest(request.id ?? null, "invalid cursor", -32602),
+            notification,
+          };
+        }
+        const list = paged.page.map((prompt) => ({
           name: prompt.name,
           description: prompt.description,
           arguments: promptArguments(prompt.inputs),
         }));
         return {
-          response: { jsonrpc: "2.0", id: request.id ?? null, result: { prompts: list } },
+          response: {
+            jsonrpc: "2.0",
+            id: request.id ?? null,
+            result: paged.nextCursor
+              ? { prompts: list, nextCursor: paged.nextCursor }
+              : { prompts: list },
+          },
           notification,
         };
       }
@@ -1967,26 +3120,61 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
             notification,
           };
         }
-        const filePath = path.resolve(cwd, prompt.file);
-        const content = fs.readFileSync(filePath, "utf8");
-        const parsed = parseFrontmatter(content);
+        const validated = validatePromptArguments(prompt.inputs, params.arguments);
+        if (!validated.ok) {
+          return {
+            response: invalidRequest(request.id ?? null, validated.error, -32602),
+            notification,
+          };
+        }
+        let rendered: { description?: string; messages: PromptMessage[] };
+        try {
+          rendered = await renderPrompt(prompt, validated.values, context, {
+            params,
+            session,
+            stream,
+          });
+        } catch (error) {
+          const message = (error as Error).message || "prompt error";
+          logDev(
+            `${colorize.red("error")} ${colorize.gray(`prompt ${prompt.name}`)} ${colorize.dim(message)}`,
+            "error",
+          );
+          recordError(metrics, message);
+          return {
+            response: invalidRequest(request.id ?? null, message, -32603),
+            notification,
+          };
+        }
         const result = {
           prompt: {
             name: prompt.name,
-            description: prompt.description,
+            description: rendered.description ?? prompt.description,
             arguments: promptArguments(prompt.inputs),
-            messages: [
-              {
-                role: "user",
-                content: [{ type: "text", text: parsed.body.trim() }],
-              },
-            ],
+            messages:
+              rendered.messages.length > 0
+                ? rendered.messages
+                : [{ role: "user", content: [{ type: "text", text: "" }] }],
           },
         };
         return { response: { jsonrpc: "2.0", id: request.id ?? null, result }, notification };
       }
-      case "logging/setLevel":
+      case "logging/setLevel": {
+        const params = asRecord(request.params) ?? {};
+        if (!isLoggingLevel(params.level)) {
+          return {
+            response: invalidRequest(request.id ?? null, "invalid params", -32602),
+            notification,
+          };
+        }
+        if (session) {
+          session.logLevel = params.level;
+        } else {
+          sessionlessLogLevel = params.level;
+        }
+        logDev(`${colorize.gray("log level")} ${colorize.cyan(params.level)}`, "verbose");
         return { response: { jsonrpc: "2.0", id: request.id ?? null, result: {} }, notification };
+      }
       case "notifications/complete":
       case "notifications/completed": {
         if (notificationsCompleteEnabled) {
@@ -2000,8 +3188,15 @@ export function createServerFromManifest(options: RuntimeOptions = {}): RuntimeS
         };
       }
       case "notifications/cancelled":
-      case "notifications/canceled":
+      case "notifications/canceled": {
+        const params = asRecord(request.params) ?? {};
+        const requestId = params.requestId;
+        if (session && (typeof requestId === "string" || typeof requestId === "number")) {
+          const reason = typeof params.reason === "string" ? params.reason : "cancelled by client";
+          inFlight.get(requestKey(session, requestId))?.(reason);
+        }
         return { response: undefined, notification: true };
+      }
       default: {
         const rawMethod = request.method ?? "unknown";
         const normalizedMethod = method ?? rawMethod;
@@ -0,0 +1,159 @@
+import { Worker } from "node:worker_threads";
+import type { ProgressReporter, Root, ToolLogger } from "./context.js";
+import type { WorkerHelper, WorkerJob, WorkerMessage, WorkerReply } from "./worker.js";
+
+export type IsolationMode = "inline" | "worker";
+
+export type WorkerResourceLimits = {
+  maxOldGenerationSizeMb?: number;
+  maxYoungGenerationSizeMb?: number;
+  codeRangeSizeMb?: number;
+  stackSizeMb?: number;
+};
+
+export type IsolationConfig = {
+  mode?: IsolationMode;
+  tools?: Record<string, IsolationMode>;
+  resourceLimits?: WorkerResourceLimits;
+};
+
+/**
+ * Worker outcome: the handler output, or a handler problem found before it ran.
+ */
+export type WorkerOutcome =
+  | { output: unknown }
+  | { handlerError: "handler-missing" | "handler-not-async" };
+
+/**
+ * Resolve whether a tool runs inline or in a worker thread.
+ */
+export function resolveIsolationMode(
+  config: IsolationConfig | undefined,
+  toolName: string,
+): IsolationMode {
+  return config?.tools?.[toolName] ?? config?.mode ?? "inline";
+}
+
+/**
+ * Reduce a context to what can cross the thread boundary.
+ * Functions and class instances (db clients, sockets) cannot be cloned.
+ */
+function toCloneable(value: unknown): unknown {
+  try {
+    return structuredClone(value);
+  } catch {
+    try {
+      return JSON.parse(JSON.stringify(value ?? null));
+    } catch {
+      return {};
+    }
+  }
+}
+
+/**
+ * Run a tool module in a fresh worker thread.
+ * Aborting `signal` terminates the worker, so CPU loops cannot outlive it.
+ */
+export function runToolInWorker(options: {
+  file: string;
+  export?: string;
+  args: unknown;
+  context: unknown;
+  signal: AbortSignal;
+  progress: ProgressReporter;
+  log: ToolLogger;
+  roots: Root[];
+  call: (helper: WorkerHelper, params: unknown) => Promise<unknown>;
+  resourceLimits?: WorkerResourceLimits;
+}): Promise<WorkerOutcome> {
+  return new Promise((resolve, reject) => {
+    const job: WorkerJob = {
+      file: options.file,
+      export: options.export,
+      args: options.args,
+      context: toCloneable(options.context),
+      roots: options.roots,
+    };
+    // Resolved from dist/<entry>/ since this module is bundled into several entries.
+    const worker = new Worker(new URL("../runtime/worker.js", import.meta.url), {
+      workerData: job,
+      resourceLimits: options.resourceLimits,
+      stderr: false,
+      stdout: false,
+    });
+    let settled = false;
+
+    /**
+     * Answer a helper call unless the worker is already gone.
+     */
+    const reply = (message: WorkerReply) => {
+      if (!settled) worker.postMessage(message);
+    };
+
+    /**
+     * Settle once and always tear the worker down.
+     */
+    const finish = (error: Error | null, outcome?: WorkerOutcome) => {
+      if (settled) return;
+      settled = true;
+      options.signal.removeEventListener("abort", onAbort);
+      worker.terminate().catch(() => {});
+      if (error || !outcome) reject(error ?? new Error("tool worker failed"));
+      else resolve(outcome);
+    };
+
+    /**
+     * Kill the worker when the call is cancelled or times out.
+     */
+    const onAbort = () => {
+      const reason = options.signal.reason;
+      finish(reason instanceof Error ? reason : new Error("tool call aborted"));
+    };
+
+    worker.on("message", (message: WorkerMessage) => {
+      if (message.type === "progress") {
+        options.progress(message.current, message.total, message.message);
+        return;
+      }
+      if (message.type === "log") {
+        options.log[message.level](message.message, message.data);
+        return;
+      }
+      if (message.type === "call") {
+        options.call(message.helper, message.params).then(
+          (result) => reply({ type: "reply", id: message.id, result }),
+          (err: unknown) =>
+            reply({
+              type: "reply",
+              id: message.id,
+              error: err instanceof Error ? err.message : String(err),
+            }),
+        );
+        return;
+      }
+      if (message.type === "result") {
+        finish(null, { output: message.output });
+        return;
+      }
+      if (message.code) {
+        finish(null, { handlerError: message.code });
+        return;
+      }
+      finish(new Error(message.message));
+    });
+    worker.on("error", (err: Error) => {
+      const code = (err as NodeJS.ErrnoException).code;
+      const detail = code === "ERR_WORKER_OUT_OF_MEMORY" ? "worker ran out of memory" : err.message;
+      finish(new Error(`tool worker crashed: ${detail}`));
+    });
+    worker.on("exit", (exitCode) => {
+      finish(new Error(`tool worker exited with code ${exitCode}`));
+    });
+
+    if (options.signal.aborted) {
+      onAbort();
+      return;
+    }
+    options.signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,221 @@
+import type { PromptInput } from "../core/frontmatter.js";
+
+export type PromptArgumentsResult =
+  | { ok: true; values: Record<string, unknown> }
+  | { ok: false; error: string };
+
+/**
+ * Convert prompt inputs into MCP arguments metadata.
+ */
+export function promptArguments(
+  inputs?: PromptInput[],
+): Array<{ name: string; description?: string; required: boolean }> {
+  if (!inputs || inputs.length === 0) return [];
+  return inputs.map((input) => ({
+    name: input.name,
+    description: input.description,
+    required: input.required === true,
+  }));
+}
+
+/**
+ * Coerce one argument to its declared type.
+ * MCP sends prompt arguments as strings, so numbers and booleans are parsed.
+ */
+function coerceArgument(type: string, value: unknown): { ok: boolean; value?: unknown } {
+  if (type === "number" || type === "integer") {
+    const parsed = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    if (typeof parsed !== "number" || !Number.isFinite(parsed)) return { ok: false };
+    if (type === "integer" && !Number.isInteger(parsed)) return { ok: false };
+    return { ok: true, value: parsed };
+  }
+  if (type === "boolean") {
+    if (typeof value === "boolean") return { ok: true, value };
+    if (value === "true" || value === "false") return { ok: true, value: value === "true" };
+    return { ok: false };
+  }
+  if (type === "string") {
+    return typeof value === "string" ? { ok: true, value } : { ok: false };
+  }
+  return { ok: true, value };
+}
+
+/**
+ * Check prompts/get arguments against the declared inputs.
+ * Undeclared arguments are ignored; declared ones must match their type.
+ */
+export function validatePromptArguments(
+  inputs: PromptInput[] | undefined,
+  args: unknown,
+): PromptArgumentsResult {
+  if (args !== undefined && (typeof args !== "object" || args === null || Array.isArray(args))) {
+    return { ok: false, error: "arguments must be an object" };
+  }
+  const provided = (args ?? {}) as Record<string, unknown>;
+  const values: Record<string, unknown> = {};
+  for (const input of inputs ?? []) {
+    const raw = provided[input.name];
+    if (raw === undefined || raw === null) {
+      if (input.required) {
+        return { ok: false, error: `missing required argument: ${input.name}` };
+      }
+      continue;
+    }
+    const coerced = coerceArgument(input.type, raw);
+    if (!coerced.ok) {
+      return { ok: false, error: `argument ${input.name} must be ${input.type}` };
+    }
+    if (input.enum && !input.enum.includes(String(coerced.value))) {
+      return { ok: false, error: `argument ${input.name} must be one of ${input.enum.join(", ")}` };
+    }
+    values[input.name] = coerced.value;
+  }
+  return { ok: true, values };
+}
+
+/**
+ * Replace `{{name}}` placeholders for declared inputs.
+ * Omitted optional inputs render as empty strings; other placeholders are left as-is.
+ */
+export function renderPromptTemplate(
+  body: string,
+  inputs: PromptInput[] | undefined,
+  values: Record<string, unknown>,
+  encode: (value: string) => string = (value) => value,
+): string {
+  const declared = new Set((inputs ?? []).map((input) => input.name));
+  return body.replace(/\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}/g, (placeholder, name: string) => {
+    if (!declared.has(name)) return placeholder;
+    const value = values[name];
+    return value === undefined ? "" : encode(String(value));
+  });
+}
+
+export type PromptPart = { type: "text"; text: string } | { type: "resource"; uri: string };
+
+export type PromptSection = {
+  role: "user" | "assistant";
+  parts: PromptPart[];
+};
+
+const ROLE_HEADING = /^##\s+(system|user|assistant)\s*$/i;
+const RESOURCE_REFERENCE = /^@(resource:\/\/\S+)\s*$/;
+
+/**
+ * Split a rendered prompt body into role sections with text and resource parts.
+ * `## system|user|assistant` headings start a new message; a line holding only
+ * `@resource://name` embeds that resource. MCP prompt messages have no system
+ * role, so system sections become user messages.
+ */
+export function parsePromptMessages(body: string): PromptSection[] {
+  type Section = { role: PromptSection["role"]; lines: Array<{ text: string; fenced: boolean }> };
+  let current: Section = { role: "user", lines: [] };
+  const sections: Section[] = [current];
+  let inFence = false;
+  for (const line of body.split(/\r?\n/)) {
+    if (line.trimStart().startsWith("```")) inFence = !inFence;
+    const heading = inFence ? null : line.match(ROLE_HEADING);
+    if (heading) {
+      current = {
+        role: heading[1].toLowerCase() === "assistant" ? "assistant" : "user",
+        lines: [],
+      };
+      sections.push(current);
+      continue;
+    }
+    current.lines.push({ text: line, fenced: inFence });
+  }
+
+  return sections.flatMap((section) => {
+    const parts: PromptPart[] = [];
+    let text: string[] = [];
+    /**
+     * Close the pending text part, skipping blank ones.
+     */
+    const flush = () => {
+      const joined = text.join("\n").trim();
+      if (joined) parts.push({ type: "text", text: joined });
+      text = [];
+    };
+    for (const line of section.lines) {
+      const reference = line.fenced ? null : line.text.match(RESOURCE_REFERENCE);
+      if (reference) {
+        flush();
+        parts.push({ type: "resource", uri: reference[1] });
+        continue;
+      }
+      text.push(line.text);
+    }
+    flush();
+    return parts.length > 0 ? [{ role: section.role, parts }] : [];
+  });
+}
+
+/**
+ * Split a prompt body into messages, then fill placeholders in each part.
+ * Structure comes from the template alone, so argument values cannot add
+ * role headings or resource lines. Values in resource URIs are percent-encoded.
+ */
+export function renderPromptMessages(
+  body: string,
+  inputs: PromptInput[] | undefined,
+  values: Record<string, unknown>,
+): PromptSection[] {
+  return parsePromptMessages(body).flatMap((section) => {
+    const parts = section.parts.flatMap((part): PromptPart[] => {
+      if (part.type === "resource") {
+        return [
+          {
+            type: "resource",
+            uri: renderPromptTemplate(part.uri, inputs, values, encodeURIComponent),
+          },
+        ];
+      }
+      const text = renderPromptTemplate(part.text, inputs, values);
+      return text.trim() ? [{ type: "text", text }] : [];
+    });
+    return parts.length > 0 ? [{ role: section.role, parts }] : [];
+  });
+}
+
+export type PromptMessage = { role: "user" | "assistant"; content: unknown[] };
+
+/**
+ * Normalize one message returned by a code prompt.
+ */
+function toPromptMessage(value: unknown): PromptMessage {
+  if (typeof value !== "object" || value === null) {
+    throw new Error("prompt messages must be objects");
+  }
+  const { role, content } = value as { role?: unknown; content?: unknown };
+  if (role !== "user" && role !== "assistant") {
+    throw new Error("prompt message role must be user or assistant");
+  }
+  if (typeof content === "string") return { role, content: [{ type: "text", text: content }] };
+  if (Array.isArray(content)) return { role, content };
+  if (typeof content === "object" && content !== null) return { role, content: [content] };
+  throw new Error("prompt message content is missing");
+}
+
+/**
+ * Normalize what a code prompt returns: a string, a message list, or `{ description?, messages }`.
+ */
+export function normalizePromptOutput(output: unknown): {
+  description?: string;
+  messages: PromptMessage[];
+} {
+  if (typeof output === "string") {
+    return { messages: [{ role: "user", content: [{ type: "text", text: output }] }] };
+  }
+  if (Array.isArray(output)) return { messages: output.map(toPromptMessage) };
+  if (typeof output === "object" && output !== null) {
+    const { description, messages } = output as { description?: unknown; messages?: unknown };
+    if (Array.isArray(messages)) {
+      return {
+        description: typeof description === "string" ? description : undefined,
+        messages: messages.map(toPromptMessage),
+      };
+    }
+  }
+  throw new Error("prompt handler must return messages");
+}
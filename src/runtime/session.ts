@@ -0,0 +1,191 @@
+import { randomUUID } from "node:crypto";
+import type { LoggingLevel, Root } from "./context.js";
+
+const MAX_QUEUED_MESSAGES = 100;
+
+/**
+ * Deliver a JSON-RPC message to a connected client.
+ */
+export type SessionChannel = (message: unknown) => void;
+
+export type SessionRequestOptions = {
+  /** Abort the request; the client is sent notifications/cancelled. */
+  signal?: AbortSignal;
+  /** Deliver the request on a specific stream instead of the session channel. */
+  send?: (message: unknown) => void;
+};
+
+/**
+ * Error returned by the client for a server-initiated request.
+ */
+export type ClientRequestError = Error & { code?: number; data?: unknown };
+
+export type RuntimeSession = {
+  id: string;
+  createdAt: number;
+  lastActiveAt: number;
+  protocolVersion?: string;
+  clientInfo?: Record<string, unknown>;
+  clientCapabilities: Record<string, unknown>;
+  /** Minimum level for notifications/message, set by logging/setLevel. */
+  logLevel?: LoggingLevel;
+  /** Roots from the client's last roots/list answer. */
+  roots: Root[];
+  /**
+   * Send a server-initiated message. Messages are queued while no channel is
+   * attached and flushed once one connects; returns false if one was dropped.
+   */
+  send: (message: unknown) => boolean;
+  /**
+   * Send a server-initiated request and resolve with the client's result.
+   */
+  request: (
+    method: string,
+    params?: Record<string, unknown>,
+    options?: SessionRequestOptions,
+  ) => Promise<unknown>;
+  /**
+   * Settle a pending server-initiated request from a client response.
+   * Returns false when no request with that id is pending.
+   */
+  resolveResponse: (message: Record<string, unknown>) => boolean;
+  attach: (channel: SessionChannel) => void;
+  detach: (channel: SessionChannel) => void;
+  hasChannel: () => boolean;
+  close: () => void;
+  /** Run a listener when the session closes; the returned function removes it. */
+  onClose: (listener: () => void) => () => void;
+  closed: boolean;
+};
+
+/**
+ * Create a client session with an optional initial delivery channel.
+ */
+export function createSession(
+  options: { id?: string; channel?: SessionChannel } = {},
+): RuntimeSession {
+  let channel: SessionChannel | null = options.channel ?? null;
+  const queue: unknown[] = [];
+  const closeListeners: Array<() => void> = [];
+  const pending = new Map<
+    string | number,
+    { resolve: (value: unknown) => void; reject: (error: Error) => void }
+  >();
+  let nextRequestId = 1;
+  const now = Date.now();
+
+  const session: RuntimeSession = {
+    id: options.id ?? randomUUID(),
+    createdAt: now,
+    lastActiveAt: now,
+    clientCapabilities: {},
+    roots: [],
+    closed: false,
+    send(message: unknown) {
+      if (session.closed) return false;
+      if (channel) {
+        channel(message);
+        return true;
+      }
+      queue.push(message);
+      if (queue.length > MAX_QUEUED_MESSAGES) {
+        queue.shift();
+        return false;
+      }
+      return true;
+    },
+    request(method: string, params?: Record<string, unknown>, options: SessionRequestOptions = {}) {
+      if (session.closed) return Promise.reject(new Error("session closed"));
+      const { signal } = options;
+      if (signal?.aborted) return Promise.reject(signal.reason);
+      const id = `dzx-${nextRequestId++}`;
+      return new Promise<unknown>((resolve, reject) => {
+        /**
+         * Cancel the request on the client when the caller gives up.
+         */
+        const onAbort = () => {
+          if (!pending.delete(id)) return;
+          session.send({
+            jsonrpc: "2.0",
+            method: "notifications/cancelled",
+            params: { requestId: id, reason: "request aborted" },
+          });
+          reject(signal?.reason ?? new Error("request aborted"));
+        };
+        pending.set(id, {
+          resolve: (value) => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve(value);
+          },
+          reject: (error) => {
+            signal?.removeEventListener("abort", onAbort);
+            reject(error);
+          },
+        });
+        signal?.addEventListener("abort", onAbort, { once: true });
+        const message = { jsonrpc: "2.0", id, method, params: params ?? {} };
+        if (options.send) {
+          options.send(message);
+        } else {
+          session.send(message);
+        }
+      });
+    },
+    resolveResponse(message: Record<string, unknown>) {
+      const id = message.id;
+      if (typeof id !== "string" && typeof id !== "number") return false;
+      const entry = pending.get(id);
+      if (!entry) return false;
+      pending.delete(id);
+      const error = message.error as
+        | { code?: number; message?: string; data?: unknown }
+        | undefined;
+      if (error && typeof error === "object") {
+        const failure: ClientRequestError = new Error(error.message ?? "client request failed");
+        failure.code = error.code;
+        failure.data = error.data;
+        entry.reject(failure);
+      } else {
+        entry.resolve(message.result);
+      }
+      return true;
+    },
+    attach(next: SessionChannel) {
+      channel = next;
+      while (queue.length > 0 && channel) {
+        channel(queue.shift());
+      }
+    },
+    detach(current: SessionChannel) {
+      if (channel === current) channel = null;
+    },
+    hasChannel() {
+      return channel !== null;
+    },
+    close() {
+      if (session.closed) return;
+      session.closed = true;
+      channel = null;
+      queue.length = 0;
+      for (const entry of pending.values()) {
+        entry.reject(new Error("session closed"));
+      }
+      pending.clear();
+      for (const listener of closeListeners.splice(0)) {
+        listener();
+      }
+    },
+    onClose(listener: () => void) {
+      if (session.closed) {
+        listener();
+        return () => {};
+      }
+      closeListeners.push(listener);
+      return () => {
+        const index = closeListeners.indexOf(listener);
+        if (index >= 0) closeListeners.splice(index, 1);
+      };
+    },
+  };
+  return session;
+}
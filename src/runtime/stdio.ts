@@ -0,0 +1,49 @@
+import readline from "node:readline";
+import type { Readable, Writable } from "node:stream";
+
+export type StdioStreams = {
+  input?: Readable;
+  output?: Writable;
+};
+
+export type StdioTransport = {
+  send: (payload: unknown) => void;
+  closed: Promise<void>;
+};
+
+/**
+ * Frame JSON-RPC messages as newline-delimited JSON over a stream pair.
+ */
+export function createStdioTransport(
+  streams: StdioStreams,
+  onMessage: (raw: string) => Promise<void> | void,
+): StdioTransport {
+  const input = streams.input ?? process.stdin;
+  const output = streams.output ?? process.stdout;
+  const pending = new Set<Promise<void>>();
+  const lines = readline.createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY });
+
+  // Messages are dispatched concurrently so a slow tool never blocks later
+  // requests (or a cancellation for it) arriving on the same stream.
+  lines.on("line", (line) => {
+    if (!line.trim()) return;
+    const task = Promise.resolve()
+      .then(() => onMessage(line))
+      .catch(() => {})
+      .finally(() => pending.delete(task));
+    pending.add(task);
+  });
+
+  const closed = new Promise<void>((resolve) => {
+    lines.once("close", () => {
+      Promise.allSettled(Array.from(pending)).then(() => resolve());
+    });
+  });
+
+  return {
+    send(payload: unknown) {
+      output.write(`${JSON.stringify(payload)}\n`);
+    },
+    closed,
+  };
+}
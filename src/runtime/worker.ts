@@ -0,0 +1,121 @@
+import { pathToFileURL } from "node:url";
+import { parentPort, workerData } from "node:worker_threads";
+import { resolveToolExport } from "../core/tool-exports.js";
+import {
+  createToolContext,
+  type ElicitResult,
+  type Root,
+  type SamplingResult,
+  type ToolLogger,
+} from "./context.js";
+
+export type WorkerJob = {
+  file: string;
+  /** Export holding the handler; the default export when omitted. */
+  export?: string;
+  args: unknown;
+  context: unknown;
+  roots: Root[];
+};
+
+export type WorkerMessage =
+  | { type: "result"; output: unknown }
+  | { type: "error"; code?: "handler-missing" | "handler-not-async"; message: string }
+  | { type: "progress"; current: number; total?: number; message?: string }
+  | { type: "log"; level: keyof ToolLogger; message: string; data?: unknown }
+  | { type: "call"; id: number; helper: WorkerHelper; params: unknown };
+
+/**
+ * Context helpers that run on the runtime thread on behalf of the worker.
+ */
+export type WorkerHelper = "sample" | "elicit";
+
+export type WorkerReply = { type: "reply"; id: number; result?: unknown; error?: string };
+
+const pendingCalls = new Map<
+  number,
+  { resolve: (value: unknown) => void; reject: (error: Error) => void }
+>();
+let nextCallId = 1;
+
+parentPort?.on("message", (message: WorkerReply) => {
+  const entry = pendingCalls.get(message.id);
+  if (!entry) return;
+  pendingCalls.delete(message.id);
+  if (message.error !== undefined) entry.reject(new Error(message.error));
+  else entry.resolve(message.result);
+});
+
+/**
+ * Post a message back to the runtime thread.
+ */
+function post(message: WorkerMessage): void {
+  parentPort?.postMessage(message);
+}
+
+/**
+ * Forward a log entry to the runtime thread, dropping data that cannot be cloned.
+ */
+function postLog(level: keyof ToolLogger, message: string, data?: unknown): void {
+  try {
+    post({ type: "log", level, message, data });
+  } catch {
+    post({ type: "log", level, message });
+  }
+}
+
+/**
+ * Run a context helper on the runtime thread and await its result.
+ */
+function callHost(helper: WorkerHelper, params: unknown): Promise<unknown> {
+  const id = nextCallId++;
+  return new Promise((resolve, reject) => {
+    pendingCalls.set(id, { resolve, reject });
+    post({ type: "call", id, helper, params });
+  });
+}
+
+/**
+ * Load the tool module and run its handler inside this worker.
+ */
+async function run(job: WorkerJob): Promise<void> {
+  const mod = (await import(pathToFileURL(job.file).href)) as Record<string, unknown>;
+  const fn = resolveToolExport(mod, job.export);
+  if (typeof fn !== "function") {
+    post({ type: "error", code: "handler-missing", message: "tool handler not found" });
+    return;
+  }
+  if (fn.constructor?.name !== "AsyncFunction") {
+    post({ type: "error", code: "handler-not-async", message: "tool handler must be async" });
+    return;
+  }
+  // The runtime terminates the worker on cancel or timeout, so this never aborts.
+  const controller = new AbortController();
+  const context = createToolContext(job.context, {
+    progress(current: number, total?: number, message?: string) {
+      post({ type: "progress", current, total, message });
+    },
+    log: {
+      debug: (message, data) => postLog("debug", message, data),
+      info: (message, data) => postLog("info", message, data),
+      warn: (message, data) => postLog("warn", message, data),
+      error: (message, data) => postLog("error", message, data),
+    },
+    sample: (request) => callHost("sample", request) as Promise<SamplingResult>,
+    elicit: (request) => callHost("elicit", request) as Promise<ElicitResult>,
+    roots: job.roots,
+    signal: controller.signal,
+  });
+  const output = await fn(job.args, context);
+  try {
+    post({ type: "result", output });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    post({ type: "error", message: `tool output is not serializable: ${message}` });
+  }
+}
+
+run(workerData as WorkerJob).catch((err: unknown) => {
+  const message = err instanceof Error ? err.message : String(err);
+  post({ type: "error", message: message || "tool error" });
+});
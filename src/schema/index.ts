@@ -1,18 +1,106 @@
-import type { z } from "zod";
+import { toJSONSchema, type z } from "zod";
 import type { ZodSchema } from "zod/v3";
 import { zodToJsonSchema } from "zod-to-json-schema";
+import type { ToolAnnotations } from "../core/discovery.js";
+import type { ToolContext } from "../runtime/context.js";
 
 type SchemaAdapter<T> = {
   parse: (data: unknown) => T;
   toJSONSchema: () => unknown;
 };
 
+/**
+ * Marks handlers built by defineTool so discovery can read their metadata.
+ * A string key (not a symbol) works across separately bundled copies of dzx.
+ */
+export const TOOL_DEFINITION = "__dzxTool";
+
+/**
+ * Convert a Zod schema to JSON Schema (draft-07).
+ * Zod 4 schemas use Zod's own converter; zod-to-json-schema only understands Zod 3.
+ * `io` picks the input or output shape, which differ for defaults and transforms.
+ */
+function toJsonSchema(schema: z.ZodTypeAny, io: "input" | "output"): unknown {
+  if ("_zod" in schema) return toJSONSchema(schema, { io, target: "draft-7" });
+  return zodToJsonSchema(schema as unknown as ZodSchema);
+}
+
 /**
  * Wrap a Zod schema with parse and JSON Schema helpers.
  */
-export function defineSchema<T extends z.ZodTypeAny>(schema: T): SchemaAdapter<z.infer<T>> {
+export function defineSchema<T extends z.ZodTypeAny>(
+  schema: T,
+  io: "input" | "output" = "output",
+): SchemaAdapter<z.infer<T>> {
   return {
     parse: (data: unknown) => schema.parse(data),
-    toJSONSchema: () => zodToJsonSchema(schema as unknown as ZodSchema),
+    toJSONSchema: () => toJsonSchema(schema, io),
   };
 }
+
+export type ToolDefinition<
+  I extends z.ZodTypeAny = z.ZodTypeAny,
+  O extends z.ZodTypeAny = z.ZodTypeAny,
+> = {
+  /** Overrides the name derived from the file path. */
+  name?: string;
+  /** Display title; takes precedence over `annotations.title`. */
+  title?: string;
+  description: string;
+  input?: I;
+  output?: O;
+  annotations?: ToolAnnotations;
+  handler: (input: z.infer<I>, context: ToolContext) => z.infer<O> | Promise<z.infer<O>>;
+};
+
+/**
+ * Metadata defineTool attaches to the handler it returns.
+ */
+export type ToolMetadata = {
+  name?: string;
+  title?: string;
+  description: string;
+  input?: SchemaAdapter<unknown>;
+  output?: SchemaAdapter<unknown>;
+  annotations?: ToolAnnotations;
+};
+
+export type DefinedTool<I extends z.ZodTypeAny, O extends z.ZodTypeAny> = ((
+  input: z.input<I>,
+  context: ToolContext,
+) => Promise<z.infer<O>>) & { [TOOL_DEFINITION]: ToolMetadata };
+
+/**
+ * Define a tool from Zod schemas. Export the result as the module default:
+ * the handler receives the parsed input, and discovery reads the name,
+ * description, schemas, and annotations from the definition.
+ */
+export function defineTool<I extends z.ZodTypeAny, O extends z.ZodTypeAny>(
+  definition: ToolDefinition<I, O>,
+): DefinedTool<I, O> {
+  const input = definition.input ? defineSchema(definition.input, "input") : undefined;
+  const output = definition.output ? defineSchema(definition.output) : undefined;
+  /**
+   * Parse the input with the Zod schema so defaults and transforms apply.
+   */
+  const handler = async (args: unknown, context: ToolContext) =>
+    definition.handler((input ? input.parse(args) : args) as z.infer<I>, context);
+  const metadata: ToolMetadata = {
+    name: definition.name,
+    title: definition.title,
+    description: definition.description,
+    input,
+    output,
+    annotations: definition.annotations,
+  };
+  return Object.assign(handler, { [TOOL_DEFINITION]: metadata });
+}
+
+/**
+ * Read the metadata of a handler built by defineTool, or undefined for plain functions.
+ */
+export function readToolDefinition(value: unknown): ToolMetadata | undefined {
+  if (typeof value !== "function") return undefined;
+  const metadata = (value as unknown as Record<string, unknown>)[TOOL_DEFINITION];
+  return typeof metadata === "object" && metadata !== null ? (metadata as ToolMetadata) : undefined;
+}
@@ -1,8 +1,36 @@
+import type { ElicitRequest, Root, SamplingRequest, SamplingResult } from "../runtime/context.js";
 import {
   createServerFromManifest,
   type RuntimeOptions,
   type RuntimeServer,
 } from "../runtime/index.js";
+import { createSession } from "../runtime/session.js";
+
+/**
+ * Fake client model used to answer sampling/createMessage in tests.
+ */
+export type SamplingHandler = (
+  request: SamplingRequest,
+) => SamplingResult | Promise<SamplingResult>;
+
+/**
+ * Fake user answering elicitation/create in tests.
+ */
+export type ElicitationHandler = (
+  request: ElicitRequest,
+) => ElicitationReply | Promise<ElicitationReply>;
+
+export type ElicitationReply = {
+  action: "accept" | "decline" | "cancel";
+  content?: Record<string, unknown>;
+};
+
+export type TestServerOptions = RuntimeOptions & {
+  sampling?: SamplingHandler;
+  elicitation?: ElicitationHandler;
+  /** Roots the fake client exposes as `context.roots`. */
+  roots?: Root[];
+};
 
 export type TestClient = {
   server: RuntimeServer;
@@ -42,9 +70,46 @@ function getRpcResponse(value: unknown): JsonRpcResponse | null {
 /**
  * Create an in-process runtime server for tests without HTTP.
  */
-export async function createTestServer(options: RuntimeOptions = {}): Promise<TestClient> {
+export async function createTestServer(options: TestServerOptions = {}): Promise<TestClient> {
+  const { sampling, elicitation, roots, ...runtimeOptions } = options;
   // Ensure we don't auto-start the HTTP server
-  const server = createServerFromManifest({ ...options, autoStart: false });
+  const server = createServerFromManifest({ ...runtimeOptions, autoStart: false });
+
+  // A fake client session answers server-initiated requests with the given handlers.
+  const session = createSession({
+    channel: (message) => {
+      const request = asRecord(message);
+      if (!request || request.id === undefined || typeof request.method !== "string") return;
+      const id = request.id;
+      /**
+       * Run the matching handler and feed its answer back as the client response.
+       */
+      const answer = async () => {
+        if (request.method === "sampling/createMessage" && sampling) {
+          return sampling(request.params as SamplingRequest);
+        }
+        if (request.method === "elicitation/create" && elicitation) {
+          return elicitation(request.params as ElicitRequest);
+        }
+        throw new Error(`no test handler for ${request.method}`);
+      };
+      answer().then(
+        (result) => session.resolveResponse({ jsonrpc: "2.0", id, result }),
+        (err: unknown) =>
+          session.resolveResponse({
+            jsonrpc: "2.0",
+            id,
+            error: { code: -32603, message: err instanceof Error ? err.message : String(err) },
+          }),
+      );
+    },
+  });
+  if (sampling) session.clientCapabilities.sampling = {};
+  if (elicitation) session.clientCapabilities.elicitation = {};
+  if (roots) {
+    session.clientCapabilities.roots = {};
+    session.roots = roots;
+  }
 
   // Initialize discovery and context
   await server.init();
@@ -63,7 +128,7 @@ export async function createTestServer(options: RuntimeOptions = {}): Promise<Te
         params: { name, arguments: args },
       };
 
-      const rawResponse = await server.processRequest(JSON.stringify(request), context);
+      const rawResponse = await server.processRequest(JSON.stringify(request), context, session);
       const response = getRpcResponse(rawResponse);
 
       // Handle JSON-RPC errors or protocol errors
@@ -78,7 +143,7 @@ export async function createTestServer(options: RuntimeOptions = {}): Promise<Te
       const result = response.result as {
         isError?: boolean;
         structuredContent?: unknown;
-        content?: Array<{ text?: string }>;
+        content?: Array<{ type?: string; text?: string }>;
       };
       if (result?.isError) {
         const text = result.content?.[0]?.text ?? "Unknown tool error";
@@ -89,6 +154,11 @@ export async function createTestServer(options: RuntimeOptions = {}): Promise<Te
         return result.structuredContent;
       }
 
+      // Rich results (images, resources, ...) are returned as content parts.
+      if (result.content?.some((part) => part.type !== "text")) {
+        return result.content;
+      }
+
       try {
         return JSON.parse(result.content?.[0]?.text ?? "");
       } catch {
@@ -103,7 +173,7 @@ export async function createTestServer(options: RuntimeOptions = {}): Promise<Te
         method: "resources/read",
         params: { uri },
       };
-      const rawResponse = await server.processRequest(JSON.stringify(request), context);
+      const rawResponse = await server.processRequest(JSON.stringify(request), context, session);
       const response = getRpcResponse(rawResponse);
       if (response?.error) {
         throw new Error(response.error.message ?? "Request failed");
@@ -125,7 +195,7 @@ export async function createTestServer(options: RuntimeOptions = {}): Promise<Te
         method: "prompts/get",
         params: { name, arguments: args },
       };
-      const rawResponse = await server.processRequest(JSON.stringify(request), context);
+      const rawResponse = await server.processRequest(JSON.stringify(request), context, session);
       const response = getRpcResponse(rawResponse);
       if (response?.error) {
         throw new Error(response.error.message ?? "Request failed");
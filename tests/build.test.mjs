@@ -4,11 +4,14 @@ import os from "node:os";
 import path from "node:path";
 import { test } from "node:test";
 import { pathToFileURL } from "node:url";
+import Ajv2020 from "ajv/dist/2020.js";
+import addFormats from "ajv-formats";
 import { runBuild } from "../dist/cli/commands.js";
 
 const fixture = path.resolve(process.cwd(), "tests/fixtures/build-split");
 const invalidFixture = path.resolve(process.cwd(), "tests/fixtures/invalid-tool");
 const sortFixture = path.resolve(process.cwd(), "tests/fixtures/build-sort");
+const promptsFixture = path.resolve(process.cwd(), "tests/fixtures/prompts");
 
 test("Build: split-tools bundles one file per tool", async () => {
   const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "dzx-build-"));
@@ -89,3 +92,31 @@ test("Build: manifest lists tools/resources/prompts in sorted order", async () =
     fs.rmSync(tempDir, { recursive: true, force: true });
   }
 });
+
+test("Build: manifest validates against tool-manifest.schema.json", async () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "dzx-build-schema-"));
+  try {
+    fs.cpSync(promptsFixture, tempDir, { recursive: true });
+    fs.mkdirSync(path.join(tempDir, "src"));
+    fs.writeFileSync(
+      path.join(tempDir, "src", "server.js"),
+      'import { createServerFromManifest } from "@dwizi/dzx/runtime";\n\ncreateServerFromManifest().start();\n',
+    );
+    await runBuild(["--cwd", tempDir, "--config", "mcp.json", "--out-dir", "dist"]);
+
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(tempDir, "dist", "tool-manifest.json"), "utf8"),
+    );
+    const schema = JSON.parse(
+      fs.readFileSync(path.resolve(process.cwd(), "tool-manifest.schema.json"), "utf8"),
+    );
+    const ajv = new Ajv2020({ strict: false });
+    addFormats(ajv);
+    const validate = ajv.compile(schema);
+    assert.ok(validate(manifest), ajv.errorsText(validate.errors));
+    const translate = manifest.prompts.find((prompt) => prompt.name === "translate");
+    assert.deepStrictEqual(translate.inputs[0].enum, ["French", "German", "Greek", "Spanish"]);
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
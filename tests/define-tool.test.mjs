@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { runBuild } from "../dist/cli/commands.js";
+import { discoverTools } from "../dist/core/discovery.js";
+import { createTestServer } from "../dist/testing/index.js";
+
+const cwd = path.resolve(process.cwd(), "tests/fixtures/define-tool");
+
+test("discoverTools reads metadata from defineTool ahead of JSDoc", async () => {
+  const warnings = [];
+  const tools = await discoverTools(cwd, "tools", { onWarn: (message) => warnings.push(message) });
+  const convert = tools.find((tool) => tool.name === "convert-units");
+
+  assert.ok(convert);
+  assert.equal(convert.title, "Convert units");
+  assert.equal(convert.description, "Convert a distance to meters.");
+  assert.equal(convert.inputSchemaSource, "schema");
+  assert.equal(convert.outputSchemaSource, "schema");
+  assert.deepEqual(convert.annotations, { readOnlyHint: true });
+
+  const echo = tools.find((tool) => tool.name === "echo");
+  assert.equal(echo.inputSchemaSource, "schema");
+  assert.equal(echo.outputSchemaSource, "default");
+  assert.equal(warnings.filter((message) => message.includes("convert")).length, 0);
+});
+
+test("tools/list and tools/call use the definition", async () => {
+  const client = await createTestServer({ cwd });
+  const response = await client.server.processRequest(
+    JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list", params: {} }),
+  );
+  const convert = response.result.tools.find((tool) => tool.name === "convert-units");
+  assert.equal(convert.title, "Convert units");
+  assert.deepEqual(Object.keys(convert.inputSchema.properties), ["value", "unit"]);
+  assert.deepEqual(convert.inputSchema.required, ["value"]);
+
+  // The handler receives parsed input, so the Zod default applies.
+  assert.deepEqual(await client.callTool("convert-units", { value: 2 }), { meters: 2000 });
+  assert.deepEqual(await client.callTool("convert-units", { value: 1, unit: "mi" }), {
+    meters: 1609,
+  });
+  assert.equal(await client.callTool("echo", { message: "hi" }), "hi");
+  await assert.rejects(client.callTool("convert-units", { value: "far" }), /-32602/);
+});
+
+test("build writes defineTool metadata to tool-manifest.json", async () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "dzx-build-define-tool-"));
+  try {
+    fs.cpSync(cwd, tempDir, { recursive: true });
+    // Tools import dzx and zod, so make both resolvable from the copy.
+    fs.mkdirSync(path.join(tempDir, "node_modules", "@dwizi"), { recursive: true });
+    fs.symlinkSync(process.cwd(), path.join(tempDir, "node_modules", "@dwizi", "dzx"), "dir");
+    fs.symlinkSync(
+      path.resolve(process.cwd(), "node_modules", "zod"),
+      path.join(tempDir, "node_modules", "zod"),
+      "dir",
+    );
+    await runBuild(["--cwd", tempDir, "--config", "mcp.json", "--out-dir", "dist"]);
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(tempDir, "dist", "tool-manifest.json"), "utf8"),
+    );
+    const convert = manifest.tools.find((tool) => tool.name === "convert-units");
+    assert.equal(convert.title, "Convert units");
+    assert.equal(convert.inputSchema.properties.value.type, "number");
+    assert.deepEqual(convert.annotations, { readOnlyHint: true });
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
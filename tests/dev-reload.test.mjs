@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+
+const fixture = path.resolve(process.cwd(), "tests/fixtures/dev-reload");
+const cli = path.resolve(process.cwd(), "dist/cli/dzx.js");
+
+/**
+ * Reserve a free TCP port on localhost.
+ */
+async function freePort() {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once("error", reject);
+    probe.listen(0, "127.0.0.1", () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Call the greet tool, resolving to its message or null while the server is down.
+ */
+async function greet(port) {
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/mcp/dev-reload`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: { name: "greet", arguments: { name: "ada" } },
+      }),
+    });
+    const body = await response.json();
+    return body.result?.structuredContent?.message ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Poll the greet tool until it returns the expected message.
+ */
+async function waitForGreeting(port, expected, timeoutMs = 20000) {
+  const started = Date.now();
+  let last = null;
+  while (Date.now() - started < timeoutMs) {
+    last = await greet(port);
+    if (last === expected) return;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+  throw new Error(`expected ${expected}, last saw ${last}`);
+}
+
+test("dzx dev picks up changes to modules imported by tools", async () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "dzx-dev-reload-"));
+  fs.cpSync(fixture, tempDir, { recursive: true });
+  // The entry imports the dzx runtime, so make it resolvable from the copy.
+  fs.mkdirSync(path.join(tempDir, "node_modules", "@dwizi"), { recursive: true });
+  fs.symlinkSync(process.cwd(), path.join(tempDir, "node_modules", "@dwizi", "dzx"), "dir");
+  const port = await freePort();
+  const dev = spawn(process.execPath, [cli, "dev", "--cwd", tempDir, "--port", String(port)], {
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  let output = "";
+  dev.stdout.on("data", (chunk) => {
+    output += chunk;
+  });
+  dev.stderr.on("data", (chunk) => {
+    output += chunk;
+  });
+  const exited = new Promise((resolve) => dev.once("exit", resolve));
+  try {
+    await waitForGreeting(port, "hello ada");
+    fs.writeFileSync(
+      path.join(tempDir, "src", "lib", "greeting.js"),
+      'export const greeting = "hi";\n',
+    );
+    await waitForGreeting(port, "hi ada");
+    assert.match(output, /Restarting dev server/);
+  } finally {
+    dev.kill("SIGTERM");
+    await exited;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
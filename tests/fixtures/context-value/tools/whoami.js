@@ -0,0 +1,6 @@
+/**
+ * Report the wrapped context value and whether the helpers arrived.
+ */
+export default async function whoami(_args, context) {
+  return { value: context.value, hasLog: typeof context.log?.info === "function" };
+}
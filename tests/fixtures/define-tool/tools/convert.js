@@ -0,0 +1,19 @@
+import { defineTool } from "@dwizi/dzx/schema";
+import { z } from "zod";
+
+/**
+ * This summary is ignored in favor of the definition.
+ * @param {string} input
+ */
+export default defineTool({
+  name: "convert-units",
+  title: "Convert units",
+  description: "Convert a distance to meters.",
+  input: z.object({
+    value: z.number(),
+    unit: z.enum(["km", "mi"]).default("km"),
+  }),
+  output: z.object({ meters: z.number() }),
+  annotations: { readOnlyHint: true },
+  handler: async ({ value, unit }) => ({ meters: unit === "km" ? value * 1000 : value * 1609 }),
+});
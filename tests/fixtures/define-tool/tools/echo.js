@@ -0,0 +1,8 @@
+import { defineTool } from "@dwizi/dzx/schema";
+import { z } from "zod";
+
+export default defineTool({
+  description: "Echo the message back.",
+  input: z.object({ message: z.string() }),
+  handler: ({ message }) => message,
+});
@@ -0,0 +1,3 @@
+import { createServerFromManifest } from "@dwizi/dzx/runtime";
+
+export default createServerFromManifest();
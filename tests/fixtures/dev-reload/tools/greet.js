@@ -0,0 +1,10 @@
+import { greeting } from "../src/lib/greeting.js";
+
+/**
+ * Greet someone with the shared greeting.
+ * @param {object} input
+ * @param {string} input.name
+ */
+export default async function greet({ name }) {
+  return { message: `${greeting} ${name}` };
+}
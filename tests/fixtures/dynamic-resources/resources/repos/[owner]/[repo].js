@@ -0,0 +1,10 @@
+export const name = "repo";
+
+export async function complete(name, value, _context, args) {
+  if (name === "owner") return ["dwizi", "dzx-labs"].filter((owner) => owner.startsWith(value));
+  return args.owner === "dwizi" ? ["dzx", "docs"] : [];
+}
+
+export default async function repo({ owner, repo }) {
+  return `${owner}/${repo}`;
+}
@@ -0,0 +1,12 @@
+export const name = "server-stats";
+export const description = "Live request counters";
+export const mimeType = "application/json";
+
+let reads = 0;
+
+export default async function stats(_variables, context) {
+  reads += 1;
+  context.progress(1, 1, "counted");
+  context.log.info(`read ${reads}`);
+  return { reads, tenant: context?.tenant ?? null };
+}
@@ -0,0 +1,6 @@
+export const description = "User profile by id";
+export const mimeType = "application/json";
+
+export default async function user({ id }, context) {
+  return { id, tenant: context?.tenant ?? null };
+}
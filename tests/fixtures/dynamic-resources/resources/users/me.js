@@ -0,0 +1,3 @@
+export default async function me(_variables, context) {
+  return `current user: ${context?.user ?? "anonymous"}`;
+}
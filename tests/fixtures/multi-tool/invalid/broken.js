@@ -0,0 +1,16 @@
+import { defineTool } from "@dwizi/dzx/schema";
+import { z } from "zod";
+
+export const unnamed = defineTool({
+  description: "Has no name.",
+  input: z.object({}),
+  handler: () => "ok",
+});
+
+export const tools = [() => "not a definition"];
+
+export const duplicate = defineTool({
+  name: "hello",
+  description: "Clashes with hello.js.",
+  handler: () => "ok",
+});
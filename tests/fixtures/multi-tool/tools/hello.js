@@ -0,0 +1,8 @@
+/**
+ * Say hello.
+ * @param {string} name
+ * @returns {string}
+ */
+export default async function hello({ name }) {
+  return `hello ${name}`;
+}
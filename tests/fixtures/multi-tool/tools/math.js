@@ -0,0 +1,21 @@
+import { defineTool } from "@dwizi/dzx/schema";
+import { z } from "zod";
+
+const pair = z.object({ a: z.number(), b: z.number() });
+const result = z.object({ value: z.number() });
+
+export const add = defineTool({
+  name: "math-add",
+  description: "Add two numbers.",
+  input: pair,
+  output: result,
+  handler: ({ a, b }) => ({ value: a + b }),
+});
+
+export const subtract = defineTool({
+  name: "math-subtract",
+  description: "Subtract b from a.",
+  input: pair,
+  output: result,
+  handler: ({ a, b }) => ({ value: a - b }),
+});
@@ -0,0 +1,17 @@
+import { defineTool } from "@dwizi/dzx/schema";
+import { z } from "zod";
+
+export const tools = [
+  defineTool({
+    name: "text-upper",
+    description: "Uppercase text.",
+    input: z.object({ text: z.string() }),
+    handler: ({ text }) => text.toUpperCase(),
+  }),
+  defineTool({
+    name: "text-lower",
+    description: "Lowercase text.",
+    input: z.object({ text: z.string() }),
+    handler: ({ text }) => text.toLowerCase(),
+  }),
+];
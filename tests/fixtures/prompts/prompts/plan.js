@@ -0,0 +1,22 @@
+export const description = "Plan a sprint";
+export const inputs = [
+  { name: "team", type: "string", required: true },
+  { name: "days", type: "integer", description: "Sprint length" },
+];
+
+const teams = Array.from({ length: 150 }, (_, index) => `team-${index}`);
+
+export const complete = {
+  team: async (value) => teams.filter((team) => team.startsWith(value)),
+};
+
+export default async function plan({ team, days = 10 }, context) {
+  const messages = [{ role: "user", content: `Plan a ${days}-day sprint for ${team}.` }];
+  if (context?.velocity) {
+    messages.push({
+      role: "assistant",
+      content: { type: "text", text: `Velocity last sprint: ${context.velocity}.` },
+    });
+  }
+  return { description: `Sprint plan for ${team}`, messages };
+}
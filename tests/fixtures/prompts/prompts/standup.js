@@ -0,0 +1,15 @@
+export const description = "Draft a standup update";
+
+/**
+ * Draft a standup note, logging through the request context helpers.
+ */
+export default async function standup(_args, context) {
+  context.log.info("drafting standup");
+  const helpers = ["progress", "sample", "elicit"].filter(
+    (name) => typeof context[name] === "function",
+  );
+  const signal = context.signal instanceof AbortSignal ? "signal" : "no signal";
+  return {
+    messages: [{ role: "user", content: `Helpers: ${helpers.join(", ")}; ${signal}.` }],
+  };
+}
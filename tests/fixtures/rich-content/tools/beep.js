@@ -0,0 +1,8 @@
+import { audio } from "@dwizi/dzx/runtime";
+
+/**
+ * Return a single audio clip.
+ */
+export default async function beep() {
+  return audio("AAEC", "audio/wav");
+}
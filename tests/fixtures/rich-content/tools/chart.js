@@ -0,0 +1,12 @@
+import { content, image, resourceLink, text } from "@dwizi/dzx/runtime";
+
+/**
+ * Render a tiny chart with a caption.
+ */
+export default async function chart() {
+  return content([
+    text("Weekly signups"),
+    image(Buffer.from([1, 2, 3]), "image/png"),
+    resourceLink("resource://reports/weekly", { mimeType: "text/csv" }),
+  ]);
+}
@@ -0,0 +1,20 @@
+import { content, embeddedResource, text } from "@dwizi/dzx/runtime";
+
+export const schema = {
+  output: {
+    type: "object",
+    properties: { rows: { type: "number" } },
+    required: ["rows"],
+  },
+};
+
+/**
+ * Build a report with structured totals.
+ */
+export default async function report(args) {
+  const rows = args.rows ?? 2;
+  return content(
+    [text(`${rows} rows`), embeddedResource("resource://report.csv", "a,b\n1,2\n", "text/csv")],
+    args.broken ? { rows: "many" } : { rows },
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * Emit one log entry per level.
+ */
+export default async function chatty(_args, context) {
+  context.log.debug("debug detail");
+  context.log.info("info message");
+  context.log.warn("warn message", { retry: true });
+  context.log.error("error message");
+  return { logged: 4 };
+}
@@ -0,0 +1,14 @@
+/**
+ * Ask the user to confirm before acting.
+ */
+export default async function confirm(_args, context) {
+  const reply = await context.elicit({
+    message: "Delete all records?",
+    requestedSchema: {
+      type: "object",
+      properties: { confirm: { type: "boolean" } },
+      required: ["confirm"],
+    },
+  });
+  return { action: reply.action, confirmed: reply.content?.confirm === true };
+}
@@ -0,0 +1,10 @@
+/**
+ * Count up to a limit, reporting progress along the way.
+ */
+export default async function count(args, context) {
+  const limit = args.limit ?? 3;
+  for (let step = 1; step <= limit; step += 1) {
+    context.progress(step, limit, `step ${step}`);
+  }
+  return { counted: limit };
+}
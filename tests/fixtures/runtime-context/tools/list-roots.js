@@ -0,0 +1,6 @@
+/**
+ * Return the roots the client exposed.
+ */
+export default async function listRoots(_args, context) {
+  return { roots: context.roots };
+}
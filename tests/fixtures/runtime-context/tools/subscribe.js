@@ -0,0 +1,14 @@
+/**
+ * Ask the user for an email address to subscribe.
+ */
+export default async function subscribe(_args, context) {
+  const reply = await context.elicit({
+    message: "Where should updates go?",
+    requestedSchema: {
+      type: "object",
+      properties: { email: { type: "string", format: "email" } },
+      required: ["email"],
+    },
+  });
+  return { action: reply.action, email: reply.content?.email ?? null };
+}
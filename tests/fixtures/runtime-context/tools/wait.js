@@ -0,0 +1,12 @@
+/**
+ * Wait until the call is aborted, then record why.
+ */
+export default async function wait(_args, context) {
+  globalThis.dzxWaiting = true;
+  await new Promise((resolve) => {
+    if (context.signal.aborted) resolve();
+    context.signal.addEventListener("abort", resolve, { once: true });
+  });
+  globalThis.dzxLastAbort = context.signal.reason?.message;
+  return { aborted: true };
+}
@@ -0,0 +1,10 @@
+/**
+ * Ask the client's model a question.
+ */
+export default async function ask(args, context) {
+  const reply = await context.sample({
+    messages: [{ role: "user", content: { type: "text", text: args.question } }],
+    maxTokens: 50,
+  });
+  return { answer: reply.content.text, model: reply.model };
+}
@@ -0,0 +1,9 @@
+/**
+ * Throw outside the handler promise so the worker dies.
+ */
+export default async function crash() {
+  setTimeout(() => {
+    throw new Error("boom");
+  }, 0);
+  return new Promise(() => {});
+}
@@ -0,0 +1,8 @@
+import { threadId } from "node:worker_threads";
+
+/**
+ * Report which thread ran the handler.
+ */
+export default async function inlineThread() {
+  return { threadId };
+}
@@ -0,0 +1,8 @@
+/**
+ * Block the thread forever.
+ */
+export default async function spin() {
+  for (;;) {
+    // busy loop that never yields
+  }
+}
@@ -0,0 +1,9 @@
+import { threadId } from "node:worker_threads";
+
+/**
+ * Report which thread ran the handler.
+ */
+export default async function thread(_args, context) {
+  context.progress(1, 1);
+  return { threadId, user: context.user ?? null };
+}
@@ -0,0 +1,11 @@
+import { sideEffect } from "./side-effect.js";
+
+sideEffect("db");
+
+/**
+ * Open a fake database connection.
+ */
+export function connect() {
+  sideEffect("connect");
+  return { search: async (q) => [q] };
+}
@@ -0,0 +1,10 @@
+import { sideEffect } from "./side-effect.js";
+
+sideEffect("forwarded");
+
+/**
+ * Forward the input unchanged.
+ */
+export default async function forwarded(input) {
+  return input;
+}
@@ -0,0 +1,10 @@
+import fs from "node:fs";
+
+/**
+ * Record that module top-level code ran.
+ */
+export function sideEffect(label) {
+  if (process.env.DZX_SIDE_EFFECT_LOG) {
+    fs.appendFileSync(process.env.DZX_SIDE_EFFECT_LOG, `${label}\n`);
+  }
+}
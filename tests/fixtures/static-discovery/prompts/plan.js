@@ -0,0 +1,10 @@
+import { sideEffect } from "../lib/side-effect.js";
+
+sideEffect("prompt");
+
+export const description = "Plan a sprint";
+export const inputs = [{ name: "team", type: "string", required: true }];
+
+export default async function plan({ team }) {
+  return `Plan the next sprint for ${team}.`;
+}
@@ -0,0 +1,11 @@
+import { sideEffect } from "../lib/side-effect.js";
+
+sideEffect("resource");
+
+export const name = "live-stats";
+export const description = "Live counters";
+export const mimeType = "application/json";
+
+export default async function stats() {
+  return { reads: 1 };
+}
@@ -0,0 +1,10 @@
+/**
+ * Echo the input.
+ */
+async function listed(input) {
+  return input;
+}
+
+const schema = { input: { type: "object", properties: { text: { type: "string" } } } };
+
+export { listed as default, schema };
@@ -0,0 +1,13 @@
+import { sideEffect } from "../lib/side-effect.js";
+
+sideEffect("plain");
+
+/**
+ * Greet someone.
+ * @param {object} input
+ * @param {string} input.name
+ * @returns {{ message: string }}
+ */
+export default async function plain(input) {
+  return { message: `hi ${input.name}` };
+}
@@ -0,0 +1,19 @@
+import { defineSchema } from "@dwizi/dzx/schema";
+import { z } from "zod";
+import { sideEffect } from "../lib/side-effect.js";
+
+sideEffect("schema-export");
+
+/**
+ * Delete a record.
+ */
+export default async function remove(input) {
+  return { deleted: input.id };
+}
+
+export const schema = {
+  input: defineSchema(z.object({ id: z.string() })),
+  output: { type: "object", properties: { deleted: { type: "string" } } },
+};
+
+export const annotations = { destructive: true };
@@ -0,0 +1,24 @@
+import { defineTool } from "@dwizi/dzx/schema";
+import { z } from "zod";
+import { connect } from "../lib/db.js";
+
+const db = connect();
+const Query = z.object({ q: z.string() });
+
+export default defineTool({
+  name: "search-docs",
+  description: "Search the docs.",
+  input: Query,
+  output: z.array(z.string()),
+  annotations: { readOnlyHint: true },
+  handler: async ({ q }) => db.search(q),
+});
+
+export const related = defineTool({
+  name: "related-docs",
+  description: "Find related docs.",
+  input: Query,
+  async handler({ q }) {
+    return db.search(q);
+  },
+});
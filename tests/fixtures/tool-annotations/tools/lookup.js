@@ -0,0 +1,10 @@
+/**
+ * Look up a user in the directory.
+ * @readonly
+ * @openWorld
+ * @param {string} id
+ * @returns {{ id: string }}
+ */
+export default async function lookup({ id }) {
+  return { id };
+}
@@ -0,0 +1,7 @@
+/**
+ * Reply with pong.
+ * @returns {{ pong: boolean }}
+ */
+export default async function ping() {
+  return { pong: true };
+}
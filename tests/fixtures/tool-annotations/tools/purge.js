@@ -0,0 +1,10 @@
+export const annotations = { title: "Purge cache", destructiveHint: true, idempotent: true };
+
+/**
+ * Purge the cache.
+ * @readonly
+ * @returns {{ purged: boolean }}
+ */
+export default async function purge() {
+  return { purged: true };
+}
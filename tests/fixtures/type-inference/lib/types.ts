@@ -0,0 +1,32 @@
+export enum Role {
+  Admin = "admin",
+  Member = "member",
+}
+
+/** Filters for a profile lookup. */
+export interface ProfileQuery {
+  /** The user id to look up. */
+  id: string;
+  /** Include archived profiles. */
+  archived?: boolean;
+  role?: Role;
+}
+
+export type Profile = {
+  id: string;
+  /** Display name shown in the UI. */
+  name: string;
+  status: "active" | "archived";
+  tags: string[];
+  createdAt: Date;
+};
+
+export type Page<T> = {
+  items: T[];
+  nextCursor?: string;
+};
+
+export interface Folder {
+  name: string;
+  children: Folder[];
+}
@@ -0,0 +1,4 @@
+import { createServerFromManifest } from "@dwizi/dzx/runtime";
+
+const server = createServerFromManifest();
+server.start();
@@ -0,0 +1,6 @@
+/**
+ * Echo the text back.
+ */
+export default async function echo(input: { text: string }): Promise<string> {
+  return input.text;
+}
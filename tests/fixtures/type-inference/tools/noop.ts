@@ -0,0 +1,4 @@
+/**
+ * Do nothing. The return type is left to inference.
+ */
+export default async function noop(_input: { reason?: string }) {}
@@ -0,0 +1,14 @@
+import type { Profile, ProfileQuery } from "../lib/types.ts";
+
+/**
+ * Look up a profile.
+ */
+export default async function profile(query: ProfileQuery): Promise<Profile> {
+  return {
+    id: query.id,
+    name: "Ada",
+    status: query.archived ? "archived" : "active",
+    tags: [],
+    createdAt: new Date(0),
+  };
+}
@@ -0,0 +1,13 @@
+import type { Page, Profile } from "../lib/types.ts";
+
+type SearchInput = {
+  text: string;
+  limit?: number;
+  sort: "asc" | "desc";
+};
+
+const search = async ({ text }: SearchInput): Promise<Page<Pick<Profile, "id" | "name">>> => ({
+  items: [{ id: "1", name: text }],
+});
+
+export default search;
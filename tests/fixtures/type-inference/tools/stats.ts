@@ -0,0 +1,20 @@
+import type { Folder } from "../lib/types.ts";
+
+type Stats = {
+  count: number;
+  ok: boolean;
+  labels: Set<string>;
+  root: Folder;
+};
+
+/**
+ * Summarize activity.
+ */
+export default async function stats(input: { since: Date; folder?: Folder }): Promise<Stats> {
+  return {
+    count: 1,
+    ok: input.since.getTime() > 0,
+    labels: new Set<string>(),
+    root: input.folder ?? { name: "root", children: [] },
+  };
+}
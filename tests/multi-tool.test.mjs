@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { pathToFileURL } from "node:url";
+import { runBuild } from "../dist/cli/commands.js";
+import { discoverTools } from "../dist/core/discovery.js";
+import { createTestServer } from "../dist/testing/index.js";
+
+const cwd = path.resolve(process.cwd(), "tests/fixtures/multi-tool");
+
+test("discoverTools finds named exports and tools arrays", async () => {
+  const tools = await discoverTools(cwd, "tools");
+  const refs = tools.map((tool) => [tool.name, tool.file, tool.export]);
+
+  assert.deepEqual(refs, [
+    ["hello", path.join("tools", "hello.js"), undefined],
+    ["math-add", path.join("tools", "math.js"), "add"],
+    ["math-subtract", path.join("tools", "math.js"), "subtract"],
+    ["text-upper", path.join("tools", "text.js"), "tools.0"],
+    ["text-lower", path.join("tools", "text.js"), "tools.1"],
+  ]);
+  const add = tools.find((tool) => tool.name === "math-add");
+  assert.deepEqual(add.location, { line: 7, column: 1 });
+  assert.equal(add.inputSchemaSource, "schema");
+});
+
+test("discoverTools reports unnamed, invalid, and duplicate tool exports", async () => {
+  const warnings = [];
+  const tools = await discoverTools(cwd, "invalid", {
+    onWarn: (message) => warnings.push(message),
+  });
+
+  assert.deepEqual(
+    tools.map((tool) => tool.name),
+    ["hello"],
+  );
+  assert.ok(warnings.some((message) => /export unnamed must set a name/.test(message)));
+  assert.ok(warnings.some((message) => /export tools\.0 is not a defineTool/.test(message)));
+  assert.ok(warnings.some((message) => /Tool name hello .* already used/.test(message)));
+});
+
+test("tools/call runs each exported tool inline and in a worker", async () => {
+  const client = await createTestServer({ cwd });
+
+  assert.deepEqual(await client.callTool("math-add", { a: 2, b: 3 }), { value: 5 });
+  assert.deepEqual(await client.callTool("math-subtract", { a: 2, b: 3 }), { value: -1 });
+  assert.equal(await client.callTool("text-upper", { text: "Hi" }), "HI");
+  assert.equal(await client.callTool("text-lower", { text: "Hi" }), "hi");
+  assert.equal(await client.callTool("hello", { name: "dzx" }), "hello dzx");
+});
+
+test("split-tools build shares one bundle between tools from the same file", async () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "dzx-build-multi-"));
+  try {
+    fs.cpSync(cwd, tempDir, { recursive: true });
+    fs.rmSync(path.join(tempDir, "invalid"), { recursive: true });
+    // Tools import dzx and zod, so make both resolvable from the copy.
+    fs.mkdirSync(path.join(tempDir, "node_modules", "@dwizi"), { recursive: true });
+    fs.symlinkSync(process.cwd(), path.join(tempDir, "node_modules", "@dwizi", "dzx"), "dir");
+    fs.symlinkSync(
+      path.resolve(process.cwd(), "node_modules", "zod"),
+      path.join(tempDir, "node_modules", "zod"),
+      "dir",
+    );
+    await runBuild([
+      "--cwd",
+      tempDir,
+      "--config",
+      "mcp.json",
+      "--out-dir",
+      "dist",
+      "--split-tools",
+    ]);
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(tempDir, "dist", "tool-manifest.json"), "utf8"),
+    );
+    const byName = Object.fromEntries(manifest.tools.map((tool) => [tool.name, tool]));
+
+    assert.equal(byName["math-add"].file, "dist/tools/math.js");
+    assert.equal(byName["math-add"].export, "add");
+    assert.equal(byName["math-subtract"].file, "dist/tools/math.js");
+    assert.equal(byName["text-lower"].export, "tools.1");
+    assert.equal("export" in byName.hello, false);
+
+    const math = await import(pathToFileURL(path.join(tempDir, byName["math-add"].file)).href);
+    assert.deepEqual(await math.add({ a: 1, b: 1 }), { value: 2 });
+    const text = await import(pathToFileURL(path.join(tempDir, byName["text-lower"].file)).href);
+    assert.equal(await text.tools[1]({ text: "OK" }), "ok");
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
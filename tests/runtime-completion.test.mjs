@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import test from "node:test";
+import { createTestServer } from "../dist/testing/index.js";
+
+const promptsCwd = path.resolve(process.cwd(), "tests/fixtures/prompts");
+const resourcesCwd = path.resolve(process.cwd(), "tests/fixtures/dynamic-resources");
+
+/**
+ * Send completion/complete for a reference and argument.
+ */
+function complete(client, ref, argument, context) {
+  return client.server.processRequest(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "completion/complete",
+      params: context ? { ref, argument, context } : { ref, argument },
+    }),
+  );
+}
+
+test("prompt arguments complete from frontmatter enums", async () => {
+  const client = await createTestServer({ cwd: promptsCwd });
+  const ref = { type: "ref/prompt", name: "translate" };
+
+  const response = await complete(client, ref, { name: "language", value: "g" });
+  assert.deepEqual(response.result.completion, {
+    values: ["German", "Greek"],
+    total: 2,
+    hasMore: false,
+  });
+
+  const none = await complete(client, ref, { name: "language", value: "x" });
+  assert.deepEqual(none.result.completion, { values: [], hasMore: false });
+
+  const missing = await complete(client, { type: "ref/prompt", name: "nope" }, { name: "a" });
+  assert.equal(missing.error.code, -32602);
+
+  const invalid = await complete(client, ref, {});
+  assert.equal(invalid.error.code, -32602);
+});
+
+test("exported complete functions are capped at 100 values", async () => {
+  const client = await createTestServer({ cwd: promptsCwd });
+  const ref = { type: "ref/prompt", name: "plan" };
+
+  const all = await complete(client, ref, { name: "team", value: "team-" });
+  assert.equal(all.result.completion.values.length, 100);
+  assert.equal(all.result.completion.total, 150);
+  assert.equal(all.result.completion.hasMore, true);
+
+  const some = await complete(client, ref, { name: "team", value: "team-14" });
+  assert.deepEqual(some.result.completion.values, [
+    "team-14",
+    ...Array.from({ length: 10 }, (_, index) => `team-14${index}`),
+  ]);
+  assert.equal(some.result.completion.hasMore, false);
+});
+
+test("resource template variables complete from the template module", async () => {
+  const client = await createTestServer({ cwd: resourcesCwd });
+  const ref = { type: "ref/resource", uri: "resource://repos/{owner}/{repo}" };
+
+  const owners = await complete(client, ref, { name: "owner", value: "dz" });
+  assert.deepEqual(owners.result.completion.values, ["dzx-labs"]);
+
+  const repos = await complete(
+    client,
+    ref,
+    { name: "repo", value: "" },
+    { arguments: { owner: "dwizi" } },
+  );
+  assert.deepEqual(repos.result.completion.values, ["dzx", "docs"]);
+
+  const unknown = await complete(
+    client,
+    { type: "ref/resource", uri: "resource://x/{y}" },
+    {
+      name: "y",
+      value: "",
+    },
+  );
+  assert.deepEqual(unknown.result.completion, { values: [], hasMore: false });
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import test from "node:test";
+import { createTestServer } from "../dist/testing/index.js";
+
+const cwd = path.resolve(process.cwd(), "tests/fixtures/rich-content");
+
+/**
+ * Call a tool and return the raw tools/call result.
+ */
+async function call(client, name, args = {}) {
+  const response = await client.server.processRequest(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/call",
+      params: { name, arguments: args },
+    }),
+  );
+  return response.result;
+}
+
+test("content helpers pass through as MCP content parts", async () => {
+  const client = await createTestServer({ cwd });
+
+  const chart = await call(client, "chart");
+  assert.deepEqual(chart, {
+    content: [
+      { type: "text", text: "Weekly signups" },
+      { type: "image", data: Buffer.from([1, 2, 3]).toString("base64"), mimeType: "image/png" },
+      {
+        type: "resource_link",
+        uri: "resource://reports/weekly",
+        mimeType: "text/csv",
+        name: "resource://reports/weekly",
+      },
+    ],
+    isError: false,
+  });
+
+  const beep = await call(client, "beep");
+  assert.deepEqual(beep.content, [{ type: "audio", data: "AAEC", mimeType: "audio/wav" }]);
+  assert.equal(beep.structuredContent, undefined);
+
+  const parts = await client.callTool("chart");
+  assert.equal(parts[1].type, "image");
+});
+
+test("structured output from content() is validated against the output schema", async () => {
+  const client = await createTestServer({ cwd });
+
+  const report = await call(client, "report", { rows: 3 });
+  assert.deepEqual(report.structuredContent, { rows: 3 });
+  assert.deepEqual(report.content[1], {
+    type: "resource",
+    resource: { uri: "resource://report.csv", mimeType: "text/csv", text: "a,b\n1,2\n" },
+  });
+
+  const broken = await call(client, "report", { broken: true });
+  assert.equal(broken.isError, true);
+});
@@ -0,0 +1,367 @@
+import assert from "node:assert/strict";
+import net from "node:net";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import { createServerFromManifest } from "../dist/runtime/index.js";
+
+const cwd = path.resolve(process.cwd(), "tests/fixtures/runtime-context");
+
+/**
+ * Reserve a free TCP port on localhost.
+ */
+async function freePort() {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once("error", reject);
+    probe.listen(0, "127.0.0.1", () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Poll until a condition holds.
+ */
+async function waitUntil(check, timeoutMs = 5000) {
+  const started = Date.now();
+  while (Date.now() - started < timeoutMs) {
+    if (check()) return;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error("timed out waiting for condition");
+}
+
+/**
+ * Parse `event: message` frames from an SSE response body.
+ */
+function parseSseFrames(text) {
+  return text
+    .split("\n\n")
+    .map((frame) => frame.split("\n").find((line) => line.startsWith("data: ")))
+    .filter(Boolean)
+    .map((line) => JSON.parse(line.slice("data: ".length)));
+}
+
+test("progress notifications stream before the tools/call result", async () => {
+  const port = await freePort();
+  process.env.DZX_HOST = "127.0.0.1";
+  const server = createServerFromManifest({ cwd, port, autoStart: false });
+  await server.start();
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/mcp/runtime-context`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 7,
+        method: "tools/call",
+        params: { name: "count", arguments: { limit: 2 }, _meta: { progressToken: "job-1" } },
+      }),
+    });
+    const frames = parseSseFrames(await response.text());
+    assert.deepEqual(
+      frames.map((frame) => frame.method ?? "result"),
+      ["notifications/progress", "notifications/progress", "result"],
+    );
+    assert.deepEqual(frames[0].params, {
+      progressToken: "job-1",
+      progress: 1,
+      total: 2,
+      message: "step 1",
+    });
+    assert.equal(frames[2].id, 7);
+    assert.deepEqual(frames[2].result.structuredContent, { counted: 2 });
+  } finally {
+    await server.close();
+  }
+});
+
+test("progress is a no-op without a progress token", async () => {
+  const server = createServerFromManifest({ cwd, autoStart: false });
+  await server.init();
+  const response = await server.processRequest(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/call",
+      params: { name: "count", arguments: { limit: 2 } },
+    }),
+  );
+  assert.equal(response.result.isError, false);
+  assert.deepEqual(response.result.structuredContent, { counted: 2 });
+});
+
+test("non-object contexts are wrapped so handlers still get the helpers", async () => {
+  const server = createServerFromManifest({
+    cwd: path.resolve(process.cwd(), "tests/fixtures/context-value"),
+    autoStart: false,
+  });
+  await server.init();
+  const response = await server.processRequest(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/call",
+      params: { name: "whoami", arguments: {} },
+    }),
+    "tenant-a",
+  );
+  assert.equal(response.result.isError, false);
+  assert.deepEqual(response.result.structuredContent, { value: "tenant-a", hasLog: true });
+});
+
+test("notifications/cancelled aborts the handler and drops its response", async () => {
+  const server = createServerFromManifest({ cwd, autoStart: false });
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const lines = [];
+  output.on("data", (chunk) => lines.push(...chunk.toString().trim().split("\n")));
+  await server.startStdio({ input, output });
+  try {
+    globalThis.dzxLastAbort = undefined;
+    globalThis.dzxWaiting = false;
+    const send = (payload) => input.write(`${JSON.stringify(payload)}\n`);
+    send({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "wait" } });
+    await waitUntil(() => globalThis.dzxWaiting === true);
+    send({
+      jsonrpc: "2.0",
+      method: "notifications/cancelled",
+      params: { requestId: 1, reason: "user pressed stop" },
+    });
+    await waitUntil(() => globalThis.dzxLastAbort !== undefined);
+    assert.equal(globalThis.dzxLastAbort, "user pressed stop");
+
+    send({ jsonrpc: "2.0", id: 2, method: "ping" });
+    await waitUntil(() => lines.some((line) => JSON.parse(line).id === 2));
+    assert.equal(
+      lines.some((line) => JSON.parse(line).id === 1),
+      false,
+      "cancelled request must not be answered",
+    );
+  } finally {
+    input.end();
+    await server.close();
+  }
+});
+
+test("sessionless notifications/cancelled cannot abort another client's call", async () => {
+  const previous = process.env.DZX_TOOL_TIMEOUT_MS;
+  process.env.DZX_TOOL_TIMEOUT_MS = "200";
+  try {
+    globalThis.dzxLastAbort = undefined;
+    globalThis.dzxWaiting = false;
+    const server = createServerFromManifest({ cwd, autoStart: false });
+    await server.init();
+    const pending = server.processRequest(
+      JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "wait" } }),
+    );
+    await waitUntil(() => globalThis.dzxWaiting === true);
+    await server.processRequest(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId: 1, reason: "other client" },
+      }),
+    );
+    const response = await pending;
+    assert.equal(response.result.isError, true);
+    assert.match(globalThis.dzxLastAbort, /timed out/);
+  } finally {
+    if (previous === undefined) delete process.env.DZX_TOOL_TIMEOUT_MS;
+    else process.env.DZX_TOOL_TIMEOUT_MS = previous;
+  }
+});
+
+test("closing an SSE response aborts the running tool", async () => {
+  const port = await freePort();
+  process.env.DZX_HOST = "127.0.0.1";
+  const server = createServerFromManifest({ cwd, port, autoStart: false });
+  await server.start();
+  try {
+    globalThis.dzxLastAbort = undefined;
+    const controller = new AbortController();
+    const pending = fetch(`http://127.0.0.1:${port}/mcp/runtime-context`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: { name: "wait" },
+      }),
+      signal: controller.signal,
+    }).catch(() => {});
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    controller.abort();
+    await pending;
+    await waitUntil(() => globalThis.dzxLastAbort !== undefined);
+    assert.equal(globalThis.dzxLastAbort, "client disconnected");
+  } finally {
+    await server.close();
+  }
+});
+
+test("tool timeouts abort the signal and still return an error", async () => {
+  const previous = process.env.DZX_TOOL_TIMEOUT_MS;
+  process.env.DZX_TOOL_TIMEOUT_MS = "50";
+  try {
+    globalThis.dzxLastAbort = undefined;
+    const server = createServerFromManifest({ cwd, autoStart: false });
+    await server.init();
+    const response = await server.processRequest(
+      JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "wait" } }),
+    );
+    assert.equal(response.result.isError, true);
+    assert.match(response.result.content[0].text, /timed out after 50ms/);
+    await waitUntil(() => globalThis.dzxLastAbort !== undefined);
+    assert.match(globalThis.dzxLastAbort, /timed out/);
+  } finally {
+    if (previous === undefined) delete process.env.DZX_TOOL_TIMEOUT_MS;
+    else process.env.DZX_TOOL_TIMEOUT_MS = previous;
+  }
+});
+
+test("context.log emits notifications/message filtered by logging/setLevel", async () => {
+  const server = createServerFromManifest({ cwd, autoStart: false });
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const messages = [];
+  output.on("data", (chunk) => {
+    for (const line of chunk.toString().trim().split("\n")) messages.push(JSON.parse(line));
+  });
+  await server.startStdio({ input, output });
+  try {
+    const send = (payload) => input.write(`${JSON.stringify(payload)}\n`);
+    /**
+     * Call the chatty tool and return the log levels it produced.
+     */
+    const callChatty = async (id) => {
+      const start = messages.length;
+      send({ jsonrpc: "2.0", id, method: "tools/call", params: { name: "chatty" } });
+      await waitUntil(() => messages.some((message) => message.id === id));
+      return messages
+        .slice(start)
+        .filter((message) => message.method === "notifications/message")
+        .map((message) => message.params);
+    };
+
+    const defaults = await callChatty(1);
+    assert.deepEqual(
+      defaults.map((entry) => entry.level),
+      ["info", "warning", "error"],
+    );
+    assert.deepEqual(defaults[1], {
+      level: "warning",
+      logger: "chatty",
+      data: { message: "warn message", data: { retry: true } },
+    });
+
+    send({ jsonrpc: "2.0", id: 2, method: "logging/setLevel", params: { level: "loud" } });
+    await waitUntil(() => messages.some((message) => message.id === 2));
+    assert.equal(messages.find((message) => message.id === 2).error.code, -32602);
+
+    send({ jsonrpc: "2.0", id: 3, method: "logging/setLevel", params: { level: "error" } });
+    await waitUntil(() => messages.some((message) => message.id === 3));
+    const filtered = await callChatty(4);
+    assert.deepEqual(
+      filtered.map((entry) => entry.level),
+      ["error"],
+    );
+  } finally {
+    input.end();
+    await server.close();
+  }
+});
+
+test("context.sample round-trips sampling/createMessage over the session", async () => {
+  const server = createServerFromManifest({ cwd, autoStart: false });
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const messages = [];
+  output.on("data", (chunk) => {
+    for (const line of chunk.toString().trim().split("\n")) messages.push(JSON.parse(line));
+  });
+  await server.startStdio({ input, output });
+  try {
+    const send = (payload) => input.write(`${JSON.stringify(payload)}\n`);
+    send({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { capabilities: { sampling: {} } },
+    });
+    await waitUntil(() => messages.some((message) => message.id === 1));
+    send({
+      jsonrpc: "2.0",
+      id: 2,
+      method: "tools/call",
+      params: { name: "ask", arguments: { question: "2+2?" } },
+    });
+    await waitUntil(() => messages.some((message) => message.method === "sampling/createMessage"));
+    const samplingRequest = messages.find((message) => message.method === "sampling/createMessage");
+    assert.equal(samplingRequest.params.maxTokens, 50);
+    assert.equal(samplingRequest.params.messages[0].content.text, "2+2?");
+
+    send({
+      jsonrpc: "2.0",
+      id: samplingRequest.id,
+      result: { role: "assistant", content: { type: "text", text: "4" }, model: "fake-1" },
+    });
+    await waitUntil(() => messages.some((message) => message.id === 2));
+    const result = messages.find((message) => message.id === 2).result;
+    assert.deepEqual(result.structuredContent, { answer: "4", model: "fake-1" });
+  } finally {
+    input.end();
+    await server.close();
+  }
+});
+
+test("roots are requested after initialization and refreshed on list_changed", async () => {
+  const server = createServerFromManifest({ cwd, autoStart: false });
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const messages = [];
+  output.on("data", (chunk) => {
+    for (const line of chunk.toString().trim().split("\n")) messages.push(JSON.parse(line));
+  });
+  await server.startStdio({ input, output });
+  try {
+    const send = (payload) => input.write(`${JSON.stringify(payload)}\n`);
+    /**
+     * Answer the next roots/list request with the given roots.
+     */
+    const answerRoots = async (roots) => {
+      const seen = messages.filter((message) => message.method === "roots/list").length;
+      await waitUntil(
+        () => messages.filter((message) => message.method === "roots/list").length > seen,
+      );
+      const request = messages.filter((message) => message.method === "roots/list")[seen];
+      send({ jsonrpc: "2.0", id: request.id, result: { roots } });
+    };
+    /**
+     * Call list-roots and return what the handler saw.
+     */
+    const callListRoots = async (id) => {
+      send({ jsonrpc: "2.0", id, method: "tools/call", params: { name: "list-roots" } });
+      await waitUntil(() => messages.some((message) => message.id === id));
+      return messages.find((message) => message.id === id).result.structuredContent.roots;
+    };
+
+    send({ jsonrpc: "2.0", id: 1, method: "initialize", params: { capabilities: { roots: {} } } });
+    await waitUntil(() => messages.some((message) => message.id === 1));
+    send({ jsonrpc: "2.0", method: "notifications/initialized" });
+    await answerRoots([{ uri: "file:///work/app", name: "app" }, { bogus: true }]);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.deepEqual(await callListRoots(2), [{ uri: "file:///work/app", name: "app" }]);
+
+    send({ jsonrpc: "2.0", method: "notifications/roots/list_changed" });
+    await answerRoots([{ uri: "file:///work/docs" }]);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.deepEqual(await callListRoots(3), [{ uri: "file:///work/docs" }]);
+  } finally {
+    input.end();
+    await server.close();
+  }
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import test from "node:test";
+import { createServerFromManifest } from "../dist/runtime/index.js";
+
+const cwd = path.resolve(process.cwd(), "tests/fixtures/runtime-isolation");
+
+/**
+ * Call a tool through the JSON-RPC entry point.
+ */
+async function callTool(server, name, context) {
+  const response = await server.processRequest(
+    JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name } }),
+    context,
+  );
+  return response.result;
+}
+
+test("worker mode runs handlers off the main thread with a cloned context", async () => {
+  const server = createServerFromManifest({ cwd, autoStart: false });
+  await server.init();
+  const isolated = await callTool(server, "thread", { user: "ada", db: { query: () => {} } });
+  assert.equal(isolated.isError, false);
+  assert.notEqual(isolated.structuredContent.threadId, 0);
+  assert.equal(isolated.structuredContent.user, "ada");
+
+  const inline = await callTool(server, "inline-thread");
+  assert.equal(inline.structuredContent.threadId, 0, "per-tool override keeps tool inline");
+});
+
+test("timeouts terminate a spinning worker and crashes become tool errors", async () => {
+  const previous = process.env.DZX_TOOL_TIMEOUT_MS;
+  process.env.DZX_TOOL_TIMEOUT_MS = "300";
+  try {
+    const server = createServerFromManifest({ cwd, autoStart: false });
+    await server.init();
+    const spun = await callTool(server, "spin");
+    assert.equal(spun.isError, true);
+    assert.match(spun.content[0].text, /timed out after 300ms/);
+
+    const crashed = await callTool(server, "crash");
+    assert.equal(crashed.isError, true);
+    assert.match(crashed.content[0].text, /tool worker crashed: boom/);
+
+    const healthy = await callTool(server, "thread");
+    assert.equal(healthy.isError, false, "server keeps serving after a bad tool");
+  } finally {
+    if (previous === undefined) delete process.env.DZX_TOOL_TIMEOUT_MS;
+    else process.env.DZX_TOOL_TIMEOUT_MS = previous;
+  }
+});
@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { createServerFromManifest } from "../dist/runtime/index.js";
+
+const fixture = path.resolve(process.cwd(), "tests/fixtures/build-sort");
+
+/**
+ * Copy the fixture with a page size configured in mcp.json.
+ */
+function createPagedApp(pageSize) {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "dzx-pages-"));
+  fs.cpSync(fixture, tempDir, { recursive: true });
+  const manifestPath = path.join(tempDir, "mcp.json");
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  manifest.mcp = { pageSize };
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  return tempDir;
+}
+
+/**
+ * Send a list request with an optional cursor.
+ */
+async function list(server, method, cursor) {
+  const params = cursor === undefined ? {} : { cursor };
+  return server.processRequest(JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }));
+}
+
+test("list methods page through discovery order with opaque cursors", async () => {
+  const tempDir = createPagedApp(2);
+  try {
+    const server = createServerFromManifest({ cwd: tempDir, autoStart: false });
+    await server.init();
+
+    const first = await list(server, "tools/list");
+    assert.deepEqual(
+      first.result.tools.map((tool) => tool.name),
+      ["alpha", "mid"],
+    );
+    assert.equal(typeof first.result.nextCursor, "string");
+    const second = await list(server, "tools/list", first.result.nextCursor);
+    assert.deepEqual(
+      second.result.tools.map((tool) => tool.name),
+      ["zeta"],
+    );
+    assert.equal(second.result.nextCursor, undefined);
+
+    const resources = await list(server, "resources/list");
+    assert.deepEqual(
+      resources.result.resources.map((resource) => resource.name),
+      ["a", "b"],
+    );
+    const prompts = await list(server, "prompts/list");
+    const lastPrompts = await list(server, "prompts/list", prompts.result.nextCursor);
+    assert.deepEqual(
+      [...prompts.result.prompts, ...lastPrompts.result.prompts].map((prompt) => prompt.name),
+      ["a", "m", "z"],
+    );
+
+    const invalid = await list(server, "tools/list", "not-a-cursor");
+    assert.equal(invalid.error.code, -32602);
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("cursors stay valid when the item they point at is removed", async () => {
+  const tempDir = createPagedApp(2);
+  try {
+    const server = createServerFromManifest({ cwd: tempDir, autoStart: false });
+    await server.init();
+    const first = await list(server, "tools/list");
+    fs.rmSync(path.join(tempDir, "tools", "mid.js"));
+    await server.reload();
+    const second = await list(server, "tools/list", first.result.nextCursor);
+    assert.deepEqual(
+      second.result.tools.map((tool) => tool.name),
+      ["zeta"],
+    );
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("paging skips nothing when a file's tools are reordered or removed", async () => {
+  const tempDir = createPagedApp(1);
+  try {
+    // Tools import dzx and zod, so make both resolvable from the copy.
+    fs.mkdirSync(path.join(tempDir, "node_modules", "@dwizi"), { recursive: true });
+    fs.symlinkSync(process.cwd(), path.join(tempDir, "node_modules", "@dwizi", "dzx"), "dir");
+    fs.symlinkSync(
+      path.resolve(process.cwd(), "node_modules", "zod"),
+      path.join(tempDir, "node_modules", "zod"),
+      "dir",
+    );
+    const textTool = (name) =>
+      `defineTool({ name: "${name}", input: z.object({}), handler: () => "${name}" })`;
+    const writeTextTools = (names) =>
+      fs.writeFileSync(
+        path.join(tempDir, "tools", "text.js"),
+        [
+          'import { defineTool } from "@dwizi/dzx/schema";',
+          'import { z } from "zod";',
+          `export const tools = [${names.map(textTool).join(", ")}];`,
+        ].join("\n"),
+      );
+    writeTextTools(["text-upper", "text-lower", "text-title"]);
+    const server = createServerFromManifest({ cwd: tempDir, autoStart: false });
+    await server.init();
+
+    const seen = [];
+    let page = await list(server, "tools/list");
+    seen.push(...page.result.tools.map((tool) => tool.name));
+    while (seen.length < 4) {
+      page = await list(server, "tools/list", page.result.nextCursor);
+      seen.push(...page.result.tools.map((tool) => tool.name));
+    }
+    assert.deepEqual(seen, ["alpha", "mid", "text-lower", "text-title"]);
+
+    writeTextTools(["text-upper", "text-lower"]);
+    await server.reload();
+    const rest = [];
+    while (page.result.nextCursor) {
+      page = await list(server, "tools/list", page.result.nextCursor);
+      rest.push(...page.result.tools.map((tool) => tool.name));
+    }
+    assert.deepEqual(rest, ["text-upper", "zeta"]);
+    assert.equal("nextCursor" in page.result, false);
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("lists are returned whole when no page size is configured", async () => {
+  const server = createServerFromManifest({ cwd: fixture, autoStart: false });
+  await server.init();
+  const response = await list(server, "tools/list");
+  assert.equal(response.result.tools.length, 3);
+  assert.equal("nextCursor" in response.result, false);
+});
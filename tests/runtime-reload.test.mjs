@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import { createServerFromManifest } from "../dist/runtime/index.js";
+
+const fixture = path.resolve(process.cwd(), "tests/fixtures/build-sort");
+
+/**
+ * Collect newline-delimited JSON messages written to a stream.
+ */
+function collectMessages(stream) {
+  const messages = [];
+  let buffer = "";
+  stream.on("data", (chunk) => {
+    buffer += chunk.toString();
+    let index = buffer.indexOf("\n");
+    while (index !== -1) {
+      messages.push(JSON.parse(buffer.slice(0, index)));
+      buffer = buffer.slice(index + 1);
+      index = buffer.indexOf("\n");
+    }
+  });
+  return messages;
+}
+
+test("reload re-discovers registries and notifies connected sessions", async () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "dzx-reload-"));
+  try {
+    fs.cpSync(fixture, tempDir, { recursive: true });
+    const server = createServerFromManifest({ cwd: tempDir, autoStart: false });
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const messages = collectMessages(output);
+    await server.startStdio({ input, output });
+
+    const unchanged = await server.reload();
+    assert.deepEqual(unchanged, { tools: false, resources: false, prompts: false });
+    assert.equal(messages.length, 0);
+
+    fs.writeFileSync(
+      path.join(tempDir, "tools", "added.js"),
+      "/**\n * Added at runtime.\n */\nexport default async function added() {\n  return {};\n}\n",
+    );
+    fs.writeFileSync(path.join(tempDir, "prompts", "n.md"), "Added prompt\n");
+    const changes = await server.reload();
+    assert.deepEqual(changes, { tools: true, resources: false, prompts: true });
+    assert.deepEqual(
+      messages.map((message) => message.method),
+      ["notifications/tools/list_changed", "notifications/prompts/list_changed"],
+    );
+
+    const list = await server.processRequest(
+      JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    );
+    assert.ok(list.result.tools.some((tool) => tool.name === "added"));
+    input.end();
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("listChanged is only advertised while hot reload is active", async () => {
+  const server = createServerFromManifest({ cwd: fixture, autoStart: false });
+  await server.init();
+  const response = await server.processRequest(
+    JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} }),
+  );
+  assert.equal(response.result.capabilities.tools.listChanged, false);
+  assert.equal(response.result.capabilities.resources.listChanged, false);
+  assert.equal(response.result.capabilities.prompts.listChanged, false);
+});
@@ -0,0 +1,205 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import { runBuild } from "../dist/cli/commands.js";
+import { discoverResources } from "../dist/core/discovery.js";
+import { createServerFromManifest } from "../dist/runtime/index.js";
+import { createTestServer } from "../dist/testing/index.js";
+
+const cwd = path.resolve(process.cwd(), "tests/fixtures/dynamic-resources");
+
+test("resources/templates/list returns file-based templates", async () => {
+  const client = await createTestServer({ cwd });
+  const response = await client.server.processRequest(
+    JSON.stringify({ jsonrpc: "2.0", id: 1, method: "resources/templates/list", params: {} }),
+  );
+  assert.deepEqual(response.result.resourceTemplates, [
+    {
+      uriTemplate: "resource://repos/{owner}/{repo}",
+      name: "repo",
+      description: undefined,
+      mimeType: undefined,
+    },
+    {
+      uriTemplate: "resource://users/{id}",
+      name: "users-id",
+      description: "User profile by id",
+      mimeType: "application/json",
+    },
+  ]);
+
+  const resources = await client.server.processRequest(
+    JSON.stringify({ jsonrpc: "2.0", id: 2, method: "resources/list", params: {} }),
+  );
+  assert.deepEqual(
+    resources.result.resources.map((resource) => resource.uri),
+    [
+      "resource://config",
+      "resource://notes",
+      "resource://pixel",
+      "resource://users",
+      "resource://guide",
+      "resource://server-stats",
+      "resource://me",
+    ],
+  );
+});
+
+test("resources/read matches templates and passes variables and context", async () => {
+  const client = await createTestServer({ cwd });
+
+  const user = await client.readResource("resource://users/a%20b", { tenant: "acme" });
+  assert.deepEqual(user, {
+    uri: "resource://users/a%20b",
+    mimeType: "application/json",
+    text: JSON.stringify({ id: "a b", tenant: "acme" }),
+  });
+
+  const repo = await client.readResource("resource://repos/dwizi/dzx");
+  assert.deepEqual(repo, {
+    uri: "resource://repos/dwizi/dzx",
+    mimeType: "text/plain",
+    text: "dwizi/dzx",
+  });
+
+  const guide = await client.readResource("resource://guide");
+  assert.equal(guide.mimeType, "text/markdown");
+
+  await assert.rejects(client.readResource("resource://users/a/b"), /resource not found/);
+});
+
+test("code resources load their contents with the request context", async () => {
+  const client = await createTestServer({ cwd });
+  const list = await client.server.processRequest(
+    JSON.stringify({ jsonrpc: "2.0", id: 1, method: "resources/list", params: {} }),
+  );
+  const stats = list.result.resources.find((resource) => resource.name === "server-stats");
+  assert.deepEqual(stats, {
+    uri: "resource://server-stats",
+    name: "server-stats",
+    description: "Live request counters",
+    mimeType: "application/json",
+  });
+
+  const first = await client.readResource("resource://server-stats", { tenant: "acme" });
+  const second = await client.readResource("resource://server-stats");
+  assert.equal(first.mimeType, "application/json");
+  assert.deepEqual(JSON.parse(first.text), { reads: 1, tenant: "acme" });
+  assert.deepEqual(JSON.parse(second.text), { reads: 2, tenant: null });
+
+  const me = await client.readResource("resource://me", { user: "ada" });
+  assert.deepEqual(me, { uri: "resource://me", mimeType: "text/plain", text: "current user: ada" });
+});
+
+test("code resources get the tool context helpers", async () => {
+  const server = createServerFromManifest({ cwd, autoStart: false });
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const messages = [];
+  output.on("data", (chunk) => {
+    for (const line of chunk.toString().trim().split("\n")) messages.push(JSON.parse(line));
+  });
+  await server.startStdio({ input, output });
+  try {
+    input.write(
+      `${JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "resources/read",
+        params: { uri: "resource://server-stats", _meta: { progressToken: "read-1" } },
+      })}\n`,
+    );
+    const started = Date.now();
+    while (!messages.some((message) => message.id === 1) && Date.now() - started < 5000) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    assert.deepEqual(
+      messages.map((message) => message.method ?? "result"),
+      ["notifications/progress", "notifications/message", "result"],
+    );
+    assert.deepEqual(messages[0].params, {
+      progressToken: "read-1",
+      progress: 1,
+      total: 1,
+      message: "counted",
+    });
+    assert.equal(messages[1].params.logger, "server-stats");
+  } finally {
+    input.end();
+    await server.close();
+  }
+});
+
+test("file resources detect MIME types and return text or base64 blobs", async () => {
+  const client = await createTestServer({ cwd });
+  const list = await client.server.processRequest(
+    JSON.stringify({ jsonrpc: "2.0", id: 1, method: "resources/list", params: {} }),
+  );
+  const mimeTypes = Object.fromEntries(
+    list.result.resources.map((resource) => [resource.name, resource.mimeType]),
+  );
+  assert.equal(mimeTypes.config, "application/json");
+  assert.equal(mimeTypes.users, "text/csv");
+  assert.equal(mimeTypes.pixel, "image/png");
+  assert.equal(mimeTypes.notes, "text/plain", "sidecar overrides the extension");
+  assert.equal(mimeTypes.guide, "text/markdown");
+
+  const csv = await client.readResource("resource://users");
+  assert.equal(csv.text, "id,name\n1,Ada\n");
+
+  const pixel = await client.readResource("resource://pixel");
+  assert.equal(pixel.text, undefined);
+  const bytes = fs.readFileSync(path.join(cwd, "resources", "data", "pixel.png"));
+  assert.equal(pixel.blob, bytes.toString("base64"));
+});
+
+test("files sharing a base name get distinct resource URIs", async () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "dzx-resource-names-"));
+  try {
+    const write = (file, content) => {
+      fs.mkdirSync(path.dirname(path.join(tempDir, "resources", file)), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, "resources", file), content);
+    };
+    write("notes.md", "# Notes");
+    write("notes.dat", "raw");
+    write("a/config.json", "{}");
+    write("b/config.json", "{}");
+    write("readme.md", "---\nname: notes.md\n---\n# Readme");
+    const warnings = [];
+    const resources = await discoverResources(tempDir, "resources", {
+      onWarn: (message) => warnings.push(message),
+    });
+    assert.deepEqual(
+      resources.map((resource) => resource.name),
+      ["a/config.json", "b/config.json", "notes.dat", "notes.md"],
+    );
+    assert.deepEqual(warnings, [
+      `Resource name notes.md in ${path.join("resources", "readme.md")} is already used by ${path.join("resources", "notes.md")}`,
+    ]);
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("build carries resource MIME types into tool-manifest.json", async () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "dzx-build-resources-"));
+  try {
+    fs.cpSync(cwd, tempDir, { recursive: true });
+    await runBuild(["--cwd", tempDir, "--config", "mcp.json", "--out-dir", "dist"]);
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(tempDir, "dist", "tool-manifest.json"), "utf8"),
+    );
+    const mediaTypes = Object.fromEntries(
+      manifest.resources.map((resource) => [resource.name, resource.mediaType]),
+    );
+    assert.equal(mediaTypes.pixel, "image/png");
+    assert.equal(mediaTypes.notes, "text/plain");
+    assert.equal(mediaTypes["server-stats"], "application/json");
+    assert.equal(mediaTypes.guide, "text/markdown");
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
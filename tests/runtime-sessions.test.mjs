@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import net from "node:net";
+import path from "node:path";
+import test from "node:test";
+import { createServerFromManifest } from "../dist/runtime/index.js";
+
+const cwd = path.resolve(process.cwd(), "tests/fixtures/app-features");
+
+/**
+ * Reserve a free TCP port on localhost.
+ */
+async function freePort() {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once("error", reject);
+    probe.listen(0, "127.0.0.1", () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Start a runtime on a free port and return its MCP endpoint.
+ */
+async function startServer() {
+  const port = await freePort();
+  process.env.DZX_HOST = "127.0.0.1";
+  const server = createServerFromManifest({ cwd, port, autoStart: false });
+  await server.start();
+  return { server, endpoint: `http://127.0.0.1:${port}/mcp/feature-test` };
+}
+
+/**
+ * POST a JSON-RPC payload with optional session header.
+ */
+function post(endpoint, payload, sessionId) {
+  const headers = { "Content-Type": "application/json" };
+  if (sessionId) headers["Mcp-Session-Id"] = sessionId;
+  return fetch(endpoint, { method: "POST", headers, body: JSON.stringify(payload) });
+}
+
+test("initialize issues a session id that later requests must reuse", async () => {
+  const { server, endpoint } = await startServer();
+  try {
+    const init = await post(endpoint, { jsonrpc: "2.0", id: 1, method: "initialize", params: {} });
+    assert.equal(init.status, 200);
+    const sessionId = init.headers.get("mcp-session-id");
+    assert.ok(sessionId, "initialize should return Mcp-Session-Id");
+
+    const list = await post(endpoint, { jsonrpc: "2.0", id: 2, method: "tools/list" }, sessionId);
+    assert.equal(list.status, 200);
+    assert.ok((await list.json()).result.tools.length > 0);
+
+    const unknown = await post(endpoint, { jsonrpc: "2.0", id: 3, method: "ping" }, "nope");
+    assert.equal(unknown.status, 404);
+
+    const stateless = await post(endpoint, { jsonrpc: "2.0", id: 4, method: "ping" });
+    assert.equal(stateless.status, 200, "requests without a session stay stateless");
+    assert.equal(stateless.headers.get("mcp-session-id"), null);
+  } finally {
+    await server.close();
+  }
+});
+
+test("GET opens one event stream per session and DELETE ends the session", async () => {
+  const { server, endpoint } = await startServer();
+  try {
+    const init = await post(endpoint, { jsonrpc: "2.0", id: 1, method: "initialize", params: {} });
+    const sessionId = init.headers.get("mcp-session-id");
+
+    const missing = await fetch(endpoint, { headers: { Accept: "text/event-stream" } });
+    assert.equal(missing.status, 400);
+
+    const controller = new AbortController();
+    const stream = await fetch(endpoint, {
+      headers: { Accept: "text/event-stream", "Mcp-Session-Id": sessionId },
+      signal: controller.signal,
+    });
+    assert.equal(stream.status, 200);
+    assert.match(stream.headers.get("content-type") ?? "", /text\/event-stream/);
+
+    const second = await fetch(endpoint, {
+      headers: { Accept: "text/event-stream", "Mcp-Session-Id": sessionId },
+    });
+    assert.equal(second.status, 409);
+    controller.abort();
+
+    const ended = await fetch(endpoint, {
+      method: "DELETE",
+      headers: { "Mcp-Session-Id": sessionId },
+    });
+    assert.equal(ended.status, 200);
+
+    const after = await post(endpoint, { jsonrpc: "2.0", id: 2, method: "ping" }, sessionId);
+    assert.equal(after.status, 404);
+  } finally {
+    await server.close();
+  }
+});
+
+test("the dashboard lists roots reported by connected clients", async () => {
+  const { server, endpoint } = await startServer();
+  try {
+    const init = await post(endpoint, {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { capabilities: { roots: {} }, clientInfo: { name: "test-client" } },
+    });
+    const sessionId = init.headers.get("mcp-session-id");
+    await post(endpoint, { jsonrpc: "2.0", method: "notifications/initialized" }, sessionId);
+
+    const controller = new AbortController();
+    const stream = await fetch(endpoint, {
+      headers: { Accept: "text/event-stream", "Mcp-Session-Id": sessionId },
+      signal: controller.signal,
+    });
+    const reader = stream.body.getReader();
+    let text = "";
+    while (!text.includes("roots/list")) {
+      const { value } = await reader.read();
+      text += new TextDecoder().decode(value);
+    }
+    const request = JSON.parse(text.split("data: ")[1].split("\n")[0]);
+    const answered = await post(
+      endpoint,
+      { jsonrpc: "2.0", id: request.id, result: { roots: [{ uri: "file:///srv/repo" }] } },
+      sessionId,
+    );
+    assert.equal(answered.status, 202);
+    controller.abort();
+
+    const dashboard = await fetch(endpoint.replace(/\/mcp\/.*$/, "/"));
+    const html = await dashboard.text();
+    assert.match(html, /file:\/\/\/srv\/repo/);
+    assert.match(html, /test-client/);
+  } finally {
+    await server.close();
+  }
+});
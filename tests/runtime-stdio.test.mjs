@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import { createServerFromManifest } from "../dist/runtime/index.js";
+
+const cwd = path.resolve(process.cwd(), "tests/fixtures/app-features");
+
+/**
+ * Collect newline-delimited JSON messages written to a stream.
+ */
+function collectMessages(stream) {
+  const messages = [];
+  let buffer = "";
+  stream.on("data", (chunk) => {
+    buffer += chunk.toString();
+    let index = buffer.indexOf("\n");
+    while (index !== -1) {
+      messages.push(JSON.parse(buffer.slice(0, index)));
+      buffer = buffer.slice(index + 1);
+      index = buffer.indexOf("\n");
+    }
+  });
+  return messages;
+}
+
+/**
+ * Wait until a predicate holds or fail after a short timeout.
+ */
+async function waitFor(predicate, timeoutMs = 2000) {
+  const started = Date.now();
+  while (!predicate()) {
+    if (Date.now() - started > timeoutMs) throw new Error("timed out waiting for messages");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+test("stdio transport frames JSON-RPC over newline-delimited JSON", async () => {
+  const server = createServerFromManifest({ cwd, autoStart: false });
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const messages = collectMessages(output);
+  await server.startStdio({ input, output });
+
+  input.write(`${JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} })}\n`);
+  input.write(`${JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" })}\n`);
+  input.write(
+    `${JSON.stringify({
+      jsonrpc: "2.0",
+      id: 2,
+      method: "tools/call",
+      params: { name: "smart-hello", arguments: { name: "Ada" } },
+    })}\n`,
+  );
+  await waitFor(() => messages.length >= 2);
+  input.end();
+
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  assert.equal(messages.length, 2, "notifications must not produce output");
+  assert.equal(byId.get(1)?.result?.serverInfo?.name, "feature-test");
+  assert.equal(byId.get(2)?.result?.structuredContent?.message, "Hello Ada");
+  assert.equal(byId.get(2)?.result?.structuredContent?.currentUser, "Carlos");
+});
+
+test("stdio transport reports parse errors without closing the stream", async () => {
+  const server = createServerFromManifest({ cwd, autoStart: false });
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const messages = collectMessages(output);
+  await server.startStdio({ input, output });
+
+  input.write("{not json\n");
+  input.write(`${JSON.stringify({ jsonrpc: "2.0", id: 7, method: "ping" })}\n`);
+  await waitFor(() => messages.length >= 2);
+  input.end();
+
+  assert.ok(messages.some((message) => message.error?.code === -32700));
+  assert.ok(messages.some((message) => message.id === 7 && message.result));
+});
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import { createServerFromManifest } from "../dist/runtime/index.js";
+
+const fixture = path.resolve(process.cwd(), "tests/fixtures/build-sort");
+
+/**
+ * Copy the fixture and enable resource subscriptions in its manifest.
+ */
+function createSubscribableApp() {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "dzx-subscribe-"));
+  fs.cpSync(fixture, tempDir, { recursive: true });
+  const manifestPath = path.join(tempDir, "mcp.json");
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  manifest.mcp = { methods: { resourcesSubscribe: true } };
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  return tempDir;
+}
+
+/**
+ * Write one JSON-RPC message per line and collect parsed output lines.
+ */
+function connect(input, output) {
+  const messages = [];
+  let buffer = "";
+  output.on("data", (chunk) => {
+    buffer += chunk.toString();
+    let index = buffer.indexOf("\n");
+    while (index !== -1) {
+      messages.push(JSON.parse(buffer.slice(0, index)));
+      buffer = buffer.slice(index + 1);
+      index = buffer.indexOf("\n");
+    }
+  });
+  return {
+    messages,
+    send: (payload) => input.write(`${JSON.stringify(payload)}\n`),
+  };
+}
+
+/**
+ * Poll until a predicate over collected messages holds.
+ */
+async function waitFor(messages, predicate, timeoutMs = 5000) {
+  const started = Date.now();
+  while (Date.now() - started < timeoutMs) {
+    const found = messages.find(predicate);
+    if (found) return found;
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+  throw new Error("timed out waiting for message");
+}
+
+test("subscribed sessions receive notifications/resources/updated", async () => {
+  const tempDir = createSubscribableApp();
+  const server = createServerFromManifest({ cwd: tempDir, autoStart: false });
+  const input = new PassThrough();
+  const output = new PassThrough();
+  try {
+    await server.startStdio({ input, output });
+    const client = connect(input, output);
+
+    client.send({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} });
+    const init = await waitFor(client.messages, (message) => message.id === 1);
+    assert.equal(init.result.capabilities.resources.subscribe, true);
+
+    client.send({ jsonrpc: "2.0", id: 2, method: "resources/subscribe", params: {} });
+    const invalid = await waitFor(client.messages, (message) => message.id === 2);
+    assert.equal(invalid.error.code, -32602);
+
+    client.send({
+      jsonrpc: "2.0",
+      id: 3,
+      method: "resources/subscribe",
+      params: { uri: "resource://a" },
+    });
+    const subscribed = await waitFor(client.messages, (message) => message.id === 3);
+    assert.deepEqual(subscribed.result, {});
+    // give the watcher a moment to attach before editing the file
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    fs.appendFileSync(path.join(tempDir, "resources", "a.md"), "\nupdated\n");
+    const updated = await waitFor(
+      client.messages,
+      (message) => message.method === "notifications/resources/updated",
+    );
+    assert.deepEqual(updated.params, { uri: "resource://a" });
+
+    const stateless = await server.processRequest(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        id: 4,
+        method: "resources/subscribe",
+        params: { uri: "resource://a" },
+      }),
+    );
+    assert.equal(stateless.error.code, -32600, "subscriptions require a session");
+  } finally {
+    input.end();
+    await server.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+test("subscribe capability is not advertised unless enabled", async () => {
+  const server = createServerFromManifest({ cwd: fixture, autoStart: false });
+  await server.init();
+  const response = await server.processRequest(
+    JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} }),
+  );
+  assert.equal(response.result.capabilities.resources.subscribe, undefined);
+});
@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { runBuild } from "../dist/cli/commands.js";
+import { discoverPrompts, discoverResources, discoverTools } from "../dist/core/discovery.js";
+
+const cwd = path.resolve(process.cwd(), "tests/fixtures/static-discovery");
+
+/**
+ * Run a callback with DZX_SIDE_EFFECT_LOG set and return what the tool modules logged.
+ */
+async function withSideEffectLog(callback) {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "dzx-static-"));
+  const log = path.join(tempDir, "side-effects.log");
+  process.env.DZX_SIDE_EFFECT_LOG = log;
+  try {
+    const result = await callback(tempDir);
+    const logged = fs.existsSync(log) ? fs.readFileSync(log, "utf8").split("\n") : [];
+    return { result, logged: logged.filter(Boolean) };
+  } finally {
+    delete process.env.DZX_SIDE_EFFECT_LOG;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+test("static discovery reads tools without running their modules", async () => {
+  const warnings = [];
+  const { result: tools, logged } = await withSideEffectLog(() =>
+    discoverTools(cwd, "tools", { static: true, onWarn: (message) => warnings.push(message) }),
+  );
+  const byName = Object.fromEntries(tools.map((tool) => [tool.name, tool]));
+
+  assert.deepEqual(logged, []);
+  assert.deepEqual(Object.keys(byName).sort(), [
+    "forwarded",
+    "listed",
+    "plain",
+    "related-docs",
+    "schema-export",
+    "search-docs",
+  ]);
+
+  assert.equal(byName.plain.description, "Greet someone.");
+  assert.equal(byName.plain.inputSchemaSource, "jsdoc");
+
+  assert.equal(byName["search-docs"].description, "Search the docs.");
+  assert.deepEqual(byName["search-docs"].annotations, { readOnlyHint: true });
+  assert.equal(byName["search-docs"].inputSchema.properties.q.type, "string");
+  assert.equal(byName["search-docs"].outputSchema.type, "array");
+  assert.equal(byName["related-docs"].export, "related");
+
+  assert.equal(byName["schema-export"].inputSchemaSource, "schema");
+  assert.deepEqual(byName["schema-export"].inputSchema.required, ["id"]);
+  assert.deepEqual(byName["schema-export"].annotations, { destructiveHint: true });
+
+  assert.equal(byName.listed.needsEvaluation, undefined);
+  assert.equal(byName.listed.inputSchemaSource, "schema");
+  assert.deepEqual(Object.keys(byName.listed.inputSchema.properties), ["text"]);
+  assert.equal(byName.plain.needsEvaluation, undefined);
+
+  assert.match(byName.forwarded.needsEvaluation, /re-exports/);
+  assert.ok(warnings.some((message) => /forwarded\.js needs runtime evaluation/.test(message)));
+});
+
+test("static discovery reads resource and prompt modules without running them", async () => {
+  const { result, logged } = await withSideEffectLog(async () => ({
+    resources: await discoverResources(cwd, "resources", { static: true }),
+    prompts: await discoverPrompts(cwd, "prompts", { static: true }),
+  }));
+  assert.deepEqual(logged, []);
+  assert.deepEqual(result.resources, [
+    {
+      name: "live-stats",
+      description: "Live counters",
+      file: path.join("resources", "stats.js"),
+      mediaType: "application/json",
+      dynamic: true,
+    },
+  ]);
+  assert.deepEqual(result.prompts, [
+    {
+      name: "plan",
+      description: "Plan a sprint",
+      file: path.join("prompts", "plan.js"),
+      inputs: [
+        { name: "team", type: "string", description: undefined, required: true, enum: undefined },
+      ],
+      dynamic: true,
+    },
+  ]);
+});
+
+test("import discovery runs module top-level code", async () => {
+  const { logged } = await withSideEffectLog(() => discoverTools(cwd, "tools"));
+  assert.ok(logged.includes("db"));
+  assert.ok(logged.includes("plain"));
+  assert.ok(logged.includes("forwarded"));
+});
+
+test("build honors discovery.mode static from mcp.json", async () => {
+  const { result: manifest, logged } = await withSideEffectLog(async (tempDir) => {
+    const project = path.join(tempDir, "project");
+    fs.cpSync(cwd, project, { recursive: true });
+    // Tools import dzx and zod, so make both resolvable from the copy.
+    fs.mkdirSync(path.join(project, "node_modules", "@dwizi"), { recursive: true });
+    fs.symlinkSync(process.cwd(), path.join(project, "node_modules", "@dwizi", "dzx"), "dir");
+    fs.symlinkSync(
+      path.resolve(process.cwd(), "node_modules", "zod"),
+      path.join(project, "node_modules", "zod"),
+      "dir",
+    );
+    await runBuild(["--cwd", project, "--config", "mcp.json", "--out-dir", "dist"]);
+    return JSON.parse(fs.readFileSync(path.join(project, "dist", "tool-manifest.json"), "utf8"));
+  });
+
+  assert.deepEqual(logged, []);
+  const search = manifest.tools.find((tool) => tool.name === "search-docs");
+  assert.equal(search.inputSchema.properties.q.type, "string");
+  assert.deepEqual(search.annotations, { readOnlyHint: true });
+  assert.deepEqual(
+    manifest.tools.map((tool) => tool.name),
+    ["forwarded", "listed", "plain", "related-docs", "schema-export", "search-docs"],
+  );
+  assert.equal(manifest.resources[0].name, "live-stats");
+  assert.equal(manifest.prompts[0].description, "Plan a sprint");
+});
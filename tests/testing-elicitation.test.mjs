@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import test from "node:test";
+import { createTestServer } from "../dist/testing/index.js";
+
+const cwd = path.resolve(process.cwd(), "tests/fixtures/runtime-context");
+
+test("context.elicit returns accepted content validated against the schema", async () => {
+  const requests = [];
+  const client = await createTestServer({
+    cwd,
+    elicitation: (request) => {
+      requests.push(request);
+      return { action: "accept", content: { confirm: true } };
+    },
+  });
+  const result = await client.callTool("confirm");
+  assert.deepEqual(result, { action: "accept", confirmed: true });
+  assert.equal(requests[0].message, "Delete all records?");
+});
+
+test("decline and cancel are passed through to the handler", async () => {
+  const client = await createTestServer({ cwd, elicitation: () => ({ action: "decline" }) });
+  assert.deepEqual(await client.callTool("confirm"), { action: "decline", confirmed: false });
+});
+
+test("accepted content that does not match the schema is rejected", async () => {
+  const client = await createTestServer({
+    cwd,
+    elicitation: () => ({ action: "accept", content: { confirm: "yes" } }),
+  });
+  await assert.rejects(() => client.callTool("confirm"), /elicitation response invalid/);
+});
+
+test("schemas with string formats validate the accepted content", async () => {
+  const accept = (email) =>
+    createTestServer({ cwd, elicitation: () => ({ action: "accept", content: { email } }) });
+  const client = await accept("ada@example.com");
+  assert.deepEqual(await client.callTool("subscribe"), {
+    action: "accept",
+    email: "ada@example.com",
+  });
+  const invalid = await accept("not an email");
+  await assert.rejects(() => invalid.callTool("subscribe"), /must match format "email"/);
+});
+
+test("elicitation is refused when the client did not declare the capability", async () => {
+  const client = await createTestServer({ cwd });
+  await assert.rejects(() => client.callTool("confirm"), /client does not support elicitation/);
+});
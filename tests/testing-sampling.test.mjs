@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import test from "node:test";
+import { createTestServer } from "../dist/testing/index.js";
+
+const fixtures = path.resolve(process.cwd(), "tests/fixtures");
+
+test("createTestServer answers context.sample with a fake handler", async () => {
+  const requests = [];
+  const client = await createTestServer({
+    cwd: path.join(fixtures, "runtime-context"),
+    sampling: async (request) => {
+      requests.push(request);
+      return { role: "assistant", content: { type: "text", text: "42" }, model: "fake" };
+    },
+  });
+  const result = await client.callTool("ask", { question: "meaning?" });
+  assert.deepEqual(result, { answer: "42", model: "fake" });
+  assert.equal(requests[0].messages[0].content.text, "meaning?");
+});
+
+test("sampling is refused when the client did not declare the capability", async () => {
+  const client = await createTestServer({ cwd: path.join(fixtures, "runtime-context") });
+  await assert.rejects(
+    () => client.callTool("ask", { question: "meaning?" }),
+    /client does not support sampling/,
+  );
+});
+
+test("sampling works from tools isolated in worker threads", async () => {
+  const client = await createTestServer({
+    cwd: path.join(fixtures, "runtime-isolation"),
+    sampling: () => ({ role: "assistant", content: { type: "text", text: "hi" }, model: "w" }),
+  });
+  const result = await client.callTool("ask", { question: "hello?" });
+  assert.deepEqual(result, { answer: "hi", model: "w" });
+});
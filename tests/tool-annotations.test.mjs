@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { runBuild } from "../dist/cli/commands.js";
+import { createTestServer } from "../dist/testing/index.js";
+
+const cwd = path.resolve(process.cwd(), "tests/fixtures/tool-annotations");
+
+test("tools/list includes annotations from JSDoc tags and exports", async () => {
+  const client = await createTestServer({ cwd });
+  const response = await client.server.processRequest(
+    JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list", params: {} }),
+  );
+  const byName = Object.fromEntries(response.result.tools.map((tool) => [tool.name, tool]));
+
+  assert.deepEqual(byName.lookup.annotations, { readOnlyHint: true, openWorldHint: true });
+  assert.deepEqual(byName.purge.annotations, {
+    readOnlyHint: true,
+    title: "Purge cache",
+    destructiveHint: true,
+    idempotentHint: true,
+  });
+  assert.equal(byName.purge.title, "Purge cache");
+  assert.equal("annotations" in byName.ping, false);
+});
+
+test("build writes annotations to tool-manifest.json", async () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "dzx-build-annotations-"));
+  try {
+    fs.cpSync(cwd, tempDir, { recursive: true });
+    await runBuild(["--cwd", tempDir, "--config", "mcp.json", "--out-dir", "dist"]);
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(tempDir, "dist", "tool-manifest.json"), "utf8"),
+    );
+    const lookup = manifest.tools.find((tool) => tool.name === "lookup");
+    assert.deepEqual(lookup.annotations, { readOnlyHint: true, openWorldHint: true });
+    const ping = manifest.tools.find((tool) => tool.name === "ping");
+    assert.equal(ping.annotations, undefined);
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import test from "node:test";
+import { createSignatureInference, discoverTools } from "../dist/core/discovery.js";
+import { createTestServer } from "../dist/testing/index.js";
+
+const cwd = path.resolve(process.cwd(), "tests/fixtures/type-inference");
+const tool = (name) => path.join(cwd, "tools", `${name}.ts`);
+const infer = createSignatureInference(
+  cwd,
+  ["profile", "search", "stats", "noop", "echo"].map(tool),
+);
+
+test("type checker resolves imported interfaces, enums, and property docs", () => {
+  const { inputSchema, outputSchema } = infer(tool("profile"));
+
+  assert.deepEqual(inputSchema, {
+    type: "object",
+    properties: {
+      id: { type: "string", description: "The user id to look up." },
+      archived: { type: "boolean", description: "Include archived profiles." },
+      role: { enum: ["admin", "member"] },
+    },
+    required: ["id"],
+    additionalProperties: false,
+  });
+  assert.deepEqual(outputSchema, {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      name: { type: "string", description: "Display name shown in the UI." },
+      status: { enum: ["active", "archived"] },
+      tags: { type: "array", items: { type: "string" } },
+      createdAt: { type: "string", format: "date-time" },
+    },
+    required: ["id", "name", "status", "tags", "createdAt"],
+    additionalProperties: false,
+  });
+});
+
+test("type checker resolves aliases, generics, and default-exported arrows", () => {
+  const { inputSchema, outputSchema } = infer(tool("search"));
+
+  assert.deepEqual(inputSchema, {
+    type: "object",
+    properties: {
+      text: { type: "string" },
+      limit: { type: "number" },
+      sort: { enum: ["asc", "desc"] },
+    },
+    required: ["text", "sort"],
+    additionalProperties: false,
+  });
+  assert.deepEqual(outputSchema, {
+    type: "object",
+    properties: {
+      items: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string", description: "Display name shown in the UI." },
+          },
+          required: ["id", "name"],
+          additionalProperties: false,
+        },
+      },
+      nextCursor: { type: "string" },
+    },
+    required: ["items"],
+    additionalProperties: false,
+  });
+});
+
+test("type checker converts sets and stops at recursive types", () => {
+  const { outputSchema } = infer(tool("stats"));
+
+  assert.deepEqual(outputSchema.properties.count, { type: "number" });
+  assert.deepEqual(outputSchema.properties.ok, { type: "boolean" });
+  assert.deepEqual(outputSchema.properties.labels, {
+    type: "array",
+    items: { type: "string" },
+    uniqueItems: true,
+  });
+  assert.deepEqual(outputSchema.properties.root, {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      children: { type: "array", items: {} },
+    },
+    required: ["name", "children"],
+    additionalProperties: false,
+  });
+});
+
+test("output schemas come only from explicit object return annotations", () => {
+  assert.equal(infer(tool("noop")).outputSchema, undefined);
+  assert.equal(infer(tool("echo")).outputSchema, undefined);
+  assert.deepEqual(infer(tool("echo")).inputSchema.required, ["text"]);
+});
+
+test("files outside the program infer nothing", () => {
+  assert.deepEqual(infer(path.join(cwd, "tools", "missing.ts")), {});
+});
+
+test(
+  "discoverTools uses the type checker as the signature source",
+  { skip: !process.features.typescript && "requires Node.js TypeScript support" },
+  async () => {
+    const tools = await discoverTools(cwd, "tools");
+    const profile = tools.find((item) => item.name === "profile");
+    assert.equal(profile.inputSchemaSource, "signature");
+    assert.equal(profile.inputSchema.properties.role.enum.length, 2);
+  },
+);
+
+test(
+  "tools returning void or a string succeed without structured output",
+  { skip: !process.features.typescript && "requires Node.js TypeScript support" },
+  async () => {
+    const client = await createTestServer({ cwd });
+    const call = (name, args) =>
+      client.server.processRequest(
+        JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "tools/call",
+          params: { name, arguments: args },
+        }),
+      );
+    const noop = await call("noop", {});
+    assert.equal(noop.result.isError, false);
+    assert.equal(noop.result.structuredContent, undefined);
+    const echo = await call("echo", { text: "hi" });
+    assert.equal(echo.result.isError, false);
+    assert.equal(echo.result.structuredContent, undefined);
+    assert.deepEqual(echo.result.content, [{ type: "text", text: "hi" }]);
+  },
+);